@@ -0,0 +1,17 @@
+/**
+ * Common passwords rejected by the password policy (compared case-insensitively).
+ * Extend at runtime with PASSWORD_BLOCKLIST_FILE (one password per line).
+ */
+export const COMMON_PASSWORDS: string[] = [
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123', '111111',
+  '000000', '654321', '666666', '121212', '112233', '123321', '987654321', '1q2w3e4r',
+  '1q2w3e4r5t', '1qaz2wsx', 'qwerty', 'qwerty123', 'qwertyuiop', 'qwe123', 'asdfgh', 'asdfghjkl',
+  'zxcvbnm', 'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd', 'pass1234',
+  'abc123', 'abcd1234', 'a1b2c3d4', 'aa123456', 'iloveyou', 'iloveyou1', 'princess', 'monkey',
+  'dragon', 'football', 'baseball', 'basketball', 'soccer', 'superman', 'batman', 'starwars',
+  'sunshine', 'shadow', 'master', 'letmein', 'welcome', 'welcome1', 'welcome123', 'login',
+  'admin', 'admin123', 'administrator', 'root', 'toor', 'changeme', 'secret', 'trustno1',
+  'whatever', 'freedom', 'michael', 'jennifer', 'jordan23', 'charlie', 'hello123', 'hello1',
+  'computer', 'internet', 'summer2024', 'winter2024', 'spring2024', 'autumn2024', 'qazwsx', 'zaq12wsx',
+  'test123', 'test1234', 'testing', 'guest', 'default', 'video123', 'videogen', 'videogen1',
+];
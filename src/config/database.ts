@@ -12,17 +12,6 @@ const connectDatabase = async (): Promise<void> => {
       console.error('❌ MongoDB connection error:', error);
     });
 
-
-    process.on('SIGINT', async () => {
-      try {
-        await mongoose.connection.close();
-        process.exit(0);
-      } catch (error) {
-        console.error('❌ Error during MongoDB connection closure:', error);
-        process.exit(1);
-      }
-    });
-
   } catch (error) {
     console.error('❌ Error connecting to MongoDB:', error);
     process.exit(1);
@@ -0,0 +1,27 @@
+/**
+ * Background job queue settings read from environment variables
+ */
+
+export const JOB_QUEUES = {
+  videoGeneration: 'video-generation',
+} as const;
+
+export const jobQueueConfig = {
+  // Set to false when workers run as a separate process (npm run worker)
+  runWorkersInProcess: process.env.JOB_WORKERS_IN_PROCESS !== 'false',
+  // How often an idle worker looks for new jobs
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000'),
+  // A claimed job is handed to another worker if its lease is not renewed within this time
+  visibilityTimeoutMs: parseInt(process.env.JOB_VISIBILITY_TIMEOUT_MS || '30000'),
+  maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+  // Retry n waits base * 2^(n-1), capped at max
+  backoffBaseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000'),
+  backoffMaxMs: parseInt(process.env.JOB_BACKOFF_MAX_MS || '3600000'), // 1 hour
+  // Completed jobs are deleted after this long; dead jobs are kept for inspection
+  completedRetentionSeconds: parseInt(process.env.JOB_COMPLETED_RETENTION_SECONDS || '604800'), // 7 days
+  // How long shutdown waits for running jobs before handing them back to the queue
+  drainTimeoutMs: parseInt(process.env.JOB_DRAIN_TIMEOUT_MS || '8000'),
+  concurrency: {
+    [JOB_QUEUES.videoGeneration]: parseInt(process.env.VIDEO_WORKER_CONCURRENCY || '2'),
+  } as Record<string, number>,
+};
@@ -0,0 +1,83 @@
+import { WorkspaceRole } from '../types';
+
+/**
+ * Role based access control
+ *
+ * Permissions are `resource:action` strings. A role grants a list of
+ * permissions; `*` grants everything and `resource:*` grants every action
+ * on a resource. Built-in roles live here, custom roles in the `roles` collection.
+ */
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'users:delete',
+  'users:suspend',
+  'users:impersonate',
+  'roles:manage',
+  'billing:read',
+  'billing:write',
+  'content:moderate',
+  'videos:read:any',
+  'videos:write:any',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const BUILT_IN_ROLES: Record<string, { description: string; permissions: string[] }> = {
+  admin: {
+    description: 'Full access to every resource',
+    permissions: ['*'],
+  },
+  support: {
+    description: 'Help customers with their accounts',
+    permissions: ['users:read', 'audit:read', 'videos:read:any'],
+  },
+  moderator: {
+    description: 'Review and moderate user content',
+    permissions: ['users:read', 'users:suspend', 'content:moderate', 'videos:read:any'],
+  },
+  finance: {
+    description: 'Manage plans and billing',
+    permissions: ['users:read', 'billing:read', 'billing:write'],
+  },
+};
+
+/**
+ * Check whether a set of granted permissions covers the required one
+ */
+export const hasPermission = (granted: string[], required: string): boolean => {
+  return granted.some(permission => {
+    if (permission === '*' || permission === required) return true;
+    if (permission.endsWith(':*')) {
+      return required.startsWith(permission.slice(0, -1));
+    }
+    return false;
+  });
+};
+
+/**
+ * Check that a permission string is known (wildcards allowed)
+ */
+export const isValidPermission = (permission: string): boolean => {
+  if (permission === '*') return true;
+  if (permission.endsWith(':*')) {
+    const resource = permission.slice(0, -1);
+    return PERMISSIONS.some(known => known.startsWith(resource));
+  }
+  return (PERMISSIONS as readonly string[]).includes(permission);
+};
+
+/**
+ * Workspace member roles, most privileged first
+ */
+export const WORKSPACE_ROLES = ['owner', 'admin', 'editor', 'viewer'] as const;
+
+/**
+ * Check whether a workspace role is at least as privileged as the required one
+ */
+export const hasWorkspaceRole = (role: WorkspaceRole | undefined, required: WorkspaceRole): boolean => {
+  if (!role) return false;
+  return WORKSPACE_ROLES.indexOf(role) <= WORKSPACE_ROLES.indexOf(required);
+};
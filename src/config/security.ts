@@ -0,0 +1,149 @@
+import { PasswordCharacterClass, PasswordPolicy } from '../types';
+
+/**
+ * Security settings read from environment variables
+ */
+
+const parseBoolean = (value: string | undefined, fallback: boolean): boolean => {
+  if (value === undefined) return fallback;
+  return value === 'true' || value === '1';
+};
+
+/**
+ * Login throttling and lockout thresholds
+ */
+export const loginThrottleConfig = {
+  // Failures against one account (from any IP) before it is locked
+  maxAccountFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '10'),
+  // Failures from one IP against one account before that pair is locked
+  maxIpAccountFailures: parseInt(process.env.LOGIN_MAX_IP_ACCOUNT_FAILURES || '5'),
+  // Failures allowed before progressive delays start
+  freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3'),
+  backoffBaseMs: parseInt(process.env.LOGIN_BACKOFF_BASE_MS || '1000'),
+  backoffMaxMs: parseInt(process.env.LOGIN_BACKOFF_MAX_MS || '60000'),
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MS || '900000'), // 15 minutes
+  failureWindowMs: parseInt(process.env.LOGIN_FAILURE_WINDOW_MS || '3600000'), // 1 hour
+  notifyOnLockout: parseBoolean(process.env.LOGIN_LOCKOUT_NOTIFY, true),
+};
+
+/**
+ * Second-factor (TOTP / recovery code) attempts. Failures per account share
+ * the login backoff and lockout thresholds above.
+ */
+export const mfaThrottleConfig = {
+  // Wrong codes one MFA challenge may take before the user has to log in again
+  maxChallengeFailures: parseInt(process.env.MFA_MAX_CHALLENGE_FAILURES || '5'),
+};
+
+/**
+ * Passwordless (magic link / email code) sign-in
+ */
+export const magicLinkConfig = {
+  ttlMs: parseInt(process.env.MAGIC_LINK_TTL_MS || '900000'), // 15 minutes
+  // Sign-in emails per address per window
+  maxRequests: parseInt(process.env.MAGIC_LINK_MAX_REQUESTS || '3'),
+  windowMs: parseInt(process.env.MAGIC_LINK_WINDOW_MS || '900000'), // 15 minutes
+};
+
+/**
+ * Email address change confirmation
+ */
+export const emailChangeConfig = {
+  codeTtlMs: parseInt(process.env.EMAIL_CHANGE_CODE_TTL_MS || '900000'), // 15 minutes
+  // How long the old address can undo the change
+  undoTtlMs: parseInt(process.env.EMAIL_CHANGE_UNDO_TTL_MS || '604800000'), // 7 days
+};
+
+/**
+ * Security audit log
+ */
+export const auditLogConfig = {
+  // Events are removed by a TTL index after this many days
+  retentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '90'),
+};
+
+/**
+ * GDPR data export
+ */
+export const dataExportConfig = {
+  // How long the emailed download link works
+  linkTtlMs: parseInt(process.env.DATA_EXPORT_LINK_TTL_MS || '172800000'), // 48 hours
+  // Minimum time between export requests per user
+  cooldownMs: parseInt(process.env.DATA_EXPORT_COOLDOWN_MS || '86400000'), // 24 hours
+};
+
+/**
+ * Opt-in HttpOnly cookie sessions for browser clients (see utils/authCookies)
+ */
+export const cookieAuthConfig = {
+  enabled: parseBoolean(process.env.AUTH_COOKIES_ENABLED, false),
+  secure: parseBoolean(process.env.AUTH_COOKIE_SECURE, process.env.NODE_ENV === 'production'),
+  // lax | strict | none (none requires secure cookies)
+  sameSite: (process.env.AUTH_COOKIE_SAMESITE || 'lax') as 'lax' | 'strict' | 'none',
+  domain: process.env.AUTH_COOKIE_DOMAIN || undefined,
+};
+
+/**
+ * Admin impersonation
+ */
+export const impersonationConfig = {
+  // Impersonation tokens cannot be refreshed - the admin starts a new one when it expires
+  tokenTtlSeconds: parseInt(process.env.IMPERSONATION_TOKEN_TTL_SECONDS || '900'), // 15 minutes
+};
+
+/**
+ * Workspace member invitations
+ */
+export const workspaceConfig = {
+  invitationTtlMs: parseInt(process.env.WORKSPACE_INVITATION_TTL_MS || '604800000'), // 7 days
+  maxMembers: parseInt(process.env.WORKSPACE_MAX_MEMBERS || '50'),
+};
+
+/**
+ * Soft account deletion
+ */
+export const accountDeletionConfig = {
+  // Days a deleted account can still be restored before it is purged
+  graceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'),
+  // How often the purge job looks for expired accounts
+  purgeIntervalMs: parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MS || '3600000'), // 1 hour
+};
+
+/**
+ * Password policy applied whenever a password is set
+ */
+export const passwordPolicyConfig: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+  // bcrypt only uses the first 72 bytes, so very long passwords add nothing
+  maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH || '128'),
+  // Comma-separated: lowercase, uppercase, letter, digit, symbol
+  requiredClasses: (process.env.PASSWORD_REQUIRED_CLASSES || 'letter,digit')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean) as PasswordCharacterClass[],
+  forbidPersonalInfo: parseBoolean(process.env.PASSWORD_FORBID_PERSONAL_INFO, true),
+  useBlocklist: parseBoolean(process.env.PASSWORD_BLOCKLIST, true),
+  checkBreached: parseBoolean(process.env.PASSWORD_BREACH_CHECK, true),
+};
+
+/**
+ * Password hashing. Changing the algorithm or cost only affects new hashes;
+ * existing ones are upgraded the next time their owner logs in.
+ */
+export const passwordHashingConfig = {
+  // bcrypt | scrypt
+  algorithm: process.env.PASSWORD_HASH_ALGORITHM || 'bcrypt',
+  bcryptRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS || '10'),
+  scrypt: {
+    // log2 of the CPU/memory cost N
+    logCost: parseInt(process.env.SCRYPT_LOG_COST || '15'),
+    blockSize: parseInt(process.env.SCRYPT_BLOCK_SIZE || '8'),
+    parallelization: parseInt(process.env.SCRYPT_PARALLELIZATION || '1'),
+    keyLength: 64,
+  },
+  // Server-side secret mixed into every password before hashing, never stored with the hash
+  pepper: process.env.PASSWORD_PEPPER,
+  pepperId: process.env.PASSWORD_PEPPER_ID || 'v1',
+  // Comma-separated id:secret pairs, kept so hashes made before a pepper rotation still verify
+  previousPeppers: process.env.PASSWORD_PREVIOUS_PEPPERS || '',
+};
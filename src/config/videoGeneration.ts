@@ -0,0 +1,42 @@
+import os from 'os';
+import path from 'path';
+import { jobQueueConfig } from './jobQueue';
+
+/**
+ * Video generation backend settings read from environment variables
+ */
+export const videoGenerationConfig = {
+  // Id of the registered provider new jobs are submitted to
+  provider: process.env.VIDEO_PROVIDER || 'mock',
+  // How often a running job's status is checked with its provider
+  pollIntervalMs: parseInt(process.env.VIDEO_PROVIDER_POLL_INTERVAL_MS || '2000'),
+  mock: {
+    // Simulated generation time for a 15 second video; longer videos take proportionally longer
+    latencyMs: parseInt(process.env.MOCK_VIDEO_LATENCY_MS || '5000'),
+    // Share of jobs (0-1) that fail part way through
+    failureRate: parseFloat(process.env.MOCK_VIDEO_FAILURE_RATE || '0'),
+    // Changes which prompts fail and how long they take, while staying deterministic
+    seed: process.env.MOCK_VIDEO_SEED || 'videogen',
+    // Where placeholder output files are written, and the URL they are served from
+    outputDir: process.env.MOCK_VIDEO_OUTPUT_DIR || path.join(os.tmpdir(), 'videogen-mock'),
+    publicUrl: process.env.MOCK_VIDEO_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}/media/mock`,
+  },
+};
+
+/**
+ * Real-time video events (Server-Sent Events)
+ */
+export const videoEventsConfig = {
+  // memory | mongo. Events from a separate worker process only reach the API through mongo,
+  // so the standalone worker (worker.ts) always uses mongo.
+  bus: process.env.VIDEO_EVENT_BUS || (jobQueueConfig.runWorkersInProcess ? 'memory' : 'mongo'),
+  // How often the mongo bus checks for events from other processes
+  busPollIntervalMs: parseInt(process.env.VIDEO_EVENT_BUS_POLL_INTERVAL_MS || '1000'),
+  // Comment lines sent on idle streams so proxies do not close them
+  heartbeatMs: parseInt(process.env.SSE_HEARTBEAT_MS || '15000'),
+  // Recent events kept in memory for Last-Event-ID resume
+  replayBufferSize: parseInt(process.env.SSE_REPLAY_BUFFER_SIZE || '1000'),
+  // How often an open stream re-checks that its token, account and workspace access are still valid
+  authRecheckMs: parseInt(process.env.SSE_AUTH_RECHECK_MS || '30000'),
+  maxStreamsPerUser: parseInt(process.env.SSE_MAX_STREAMS_PER_USER || '5'),
+};
@@ -0,0 +1,352 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { roleService } from '../services/role.service';
+import { adminService, UserSearchQuery } from '../services/admin.service';
+import { auditService } from '../services/audit.service';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { getRequestContext } from '../utils/request';
+import { ApiResponseDto, AuditEventListResponseDto } from '../dtos/auth.dto';
+import {
+  CreateRoleRequestDto,
+  UpdateRoleRequestDto,
+  AssignRolesRequestDto,
+  ChangePlanRequestDto,
+  SetAdminRequestDto,
+  SetAccountStatusRequestDto,
+  RoleResponseDto,
+  UserRolesResponseDto,
+  UserListResponseDto,
+  AdminUserSummaryDto,
+  AdminUserDetailDto,
+  ImpersonationResponseDto,
+} from '../dtos/admin.dto';
+
+const parseDate = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new AppError(`${name} must be a valid date`, 400);
+  }
+  return date;
+};
+
+const parseNumber = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new AppError(`${name} must be a positive whole number`, 400);
+  }
+  return number;
+};
+
+const parseString = (value: unknown): string | undefined => {
+  return value !== undefined ? String(value) : undefined;
+};
+
+/**
+ * Parse the user search query string
+ */
+const parseUserSearchQuery = (query: AuthRequest['query']): UserSearchQuery => {
+  let verified: boolean | undefined;
+  if (query.verified !== undefined) {
+    if (query.verified !== 'true' && query.verified !== 'false') {
+      throw new AppError('verified must be true or false', 400);
+    }
+    verified = query.verified === 'true';
+  }
+
+  return {
+    page: parseNumber(query.page, 'page'),
+    limit: parseNumber(query.limit, 'limit'),
+    email: parseString(query.email),
+    plan: parseString(query.plan),
+    verified,
+    status: parseString(query.status),
+    createdFrom: parseDate(query.createdFrom, 'createdFrom'),
+    createdTo: parseDate(query.createdTo, 'createdTo'),
+  };
+};
+
+/**
+ * List built-in and custom roles with every known permission
+ * @route GET /api/admin/roles
+ */
+export const getRoles = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const roles = await roleService.listRoles();
+
+  const response: ApiResponseDto<{ roles: RoleResponseDto[]; permissions: readonly string[] }> = {
+    success: true,
+    message: 'Roles retrieved successfully',
+    data: { roles, permissions: PERMISSIONS },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Create a custom role
+ * @route POST /api/admin/roles
+ */
+export const createRole = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name, description, permissions }: CreateRoleRequestDto = req.body;
+
+  const role = await roleService.createRole(name, permissions, description);
+
+  const response: ApiResponseDto<{ role: RoleResponseDto }> = {
+    success: true,
+    message: 'Role created successfully',
+    data: { role },
+  };
+
+  res.status(201).json(response);
+});
+
+/**
+ * Change a custom role's description or permissions
+ * @route PUT /api/admin/roles/:name
+ */
+export const updateRole = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { description, permissions }: UpdateRoleRequestDto = req.body;
+
+  const role = await roleService.updateRole(req.params.name, { description, permissions });
+
+  const response: ApiResponseDto<{ role: RoleResponseDto }> = {
+    success: true,
+    message: 'Role updated successfully',
+    data: { role },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Delete a custom role
+ * @route DELETE /api/admin/roles/:name
+ */
+export const deleteRole = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await roleService.deleteRole(req.params.name);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Role deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Replace a user's roles
+ * @route PUT /api/admin/users/:id/roles
+ */
+export const assignRoles = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { roles }: AssignRolesRequestDto = req.body;
+
+  const result = await roleService.assignRoles(req.params.id, roles);
+
+  const response: ApiResponseDto<UserRolesResponseDto> = {
+    success: true,
+    message: 'Roles updated successfully',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Search users by email, plan, verification state and signup date
+ * @route GET /api/admin/users
+ */
+export const getUsers = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const result = await adminService.listUsers(parseUserSearchQuery(req.query));
+
+  const response: ApiResponseDto<UserListResponseDto> = {
+    success: true,
+    message: 'Users retrieved successfully',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Get a user's full profile
+ * @route GET /api/admin/users/:id
+ */
+export const getUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const user = await adminService.getUser(req.params.id);
+
+  const response: ApiResponseDto<{ user: AdminUserDetailDto }> = {
+    success: true,
+    message: 'User retrieved successfully',
+    data: { user },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Change a user's plan
+ * @route PUT /api/admin/users/:id/plan
+ */
+export const changeUserPlan = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { plan }: ChangePlanRequestDto = req.body;
+
+  const user = await adminService.changePlan(req.params.id, plan);
+
+  const response: ApiResponseDto<{ user: AdminUserSummaryDto }> = {
+    success: true,
+    message: 'Plan updated successfully',
+    data: { user },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Grant or remove admin rights
+ * @route PUT /api/admin/users/:id/admin
+ */
+export const setUserAdmin = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { isAdmin }: SetAdminRequestDto = req.body;
+
+  const user = await adminService.setAdmin(req.user!.id, req.params.id, isAdmin);
+
+  const response: ApiResponseDto<{ user: AdminUserSummaryDto }> = {
+    success: true,
+    message: isAdmin ? 'Admin rights granted' : 'Admin rights removed',
+    data: { user },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Suspend, ban or reinstate a user
+ * @route PUT /api/admin/users/:id/status
+ */
+export const setUserStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { status, reason, suspendedUntil }: SetAccountStatusRequestDto = req.body;
+
+  let until: Date | undefined;
+  if (suspendedUntil !== undefined) {
+    until = new Date(suspendedUntil);
+    if (isNaN(until.getTime())) {
+      throw new AppError('suspendedUntil must be a valid date', 400);
+    }
+  }
+
+  const user = await adminService.setAccountStatus(req.user!.id, req.params.id, { status, reason, suspendedUntil: until });
+
+  const response: ApiResponseDto<{ user: AdminUserSummaryDto }> = {
+    success: true,
+    message: 'Account status updated successfully',
+    data: { user },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Lift a suspension or ban
+ * @route DELETE /api/admin/users/:id/status
+ */
+export const clearUserStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const user = await adminService.clearAccountStatus(req.params.id);
+
+  const response: ApiResponseDto<{ user: AdminUserSummaryDto }> = {
+    success: true,
+    message: 'Account reinstated successfully',
+    data: { user },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Force a user to verify their email again
+ * @route POST /api/admin/users/:id/reverify
+ */
+export const forceReverification = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const result = await adminService.forceReverification(req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: result.message,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Send a user a password reset code
+ * @route POST /api/admin/users/:id/password-reset
+ */
+export const triggerPasswordReset = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const result = await adminService.triggerPasswordReset(req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: result.message,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Permanently delete a user
+ * @route DELETE /api/admin/users/:id
+ */
+export const deleteUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await adminService.deleteUser(req.user!.id, req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'User deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Start acting as a user. Returns a short-lived access token for that user.
+ * @route POST /api/admin/impersonate/:userId
+ */
+export const impersonateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const result = await adminService.impersonate(req.user!.id, req.params.userId, getRequestContext(req));
+
+  const response: ApiResponseDto<ImpersonationResponseDto> = {
+    success: true,
+    message: 'Impersonation started. Every request made with this token is logged.',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Search the security audit log
+ * @route GET /api/admin/audit-events
+ */
+export const getAuditEvents = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const result = await auditService.query({
+    userId: parseString(req.query.userId),
+    actorId: parseString(req.query.actorId),
+    email: parseString(req.query.email),
+    type: parseString(req.query.type),
+    outcome: parseString(req.query.outcome),
+    ip: parseString(req.query.ip),
+    from: parseDate(req.query.from, 'from'),
+    to: parseDate(req.query.to, 'to'),
+    page: parseNumber(req.query.page, 'page'),
+    limit: parseNumber(req.query.limit, 'limit'),
+  });
+
+  const response: ApiResponseDto<AuditEventListResponseDto> = {
+    success: true,
+    message: 'Audit events retrieved successfully',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
@@ -1,10 +1,24 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
 import { authService } from '../services/auth.service';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getRequestContext } from '../utils/request';
+import { cookieAuthConfig } from '../config/security';
+import {
+  clearAuthCookies,
+  deliverTokens,
+  getCookie,
+  issueCsrfToken,
+  usesCookieAuth,
+  REFRESH_TOKEN_COOKIE,
+  CSRF_TOKEN_COOKIE,
+} from '../utils/authCookies';
 import {
   RegisterRequestDto,
   LoginRequestDto,
+  LoginMfaRequestDto,
+  MagicLinkRequestDto,
+  VerifyMagicLinkRequestDto,
   RefreshTokenRequestDto,
   ForgotPasswordRequestDto,
   VerifyEmailRequestDto,
@@ -13,11 +27,31 @@ import {
   ResetPasswordRequestDto,
   UpdateProfileRequestDto,
   ChangePasswordRequestDto,
+  ChangeEmailRequestDto,
+  ConfirmEmailChangeRequestDto,
+  UndoEmailChangeRequestDto,
   DeleteAccountRequestDto,
+  RestoreAccountRequestDto,
+  ConfirmTwoFactorRequestDto,
+  DisableTwoFactorRequestDto,
+  RegenerateRecoveryCodesRequestDto,
+  CreateApiKeyRequestDto,
+  UpdateApiKeyRequestDto,
   ApiResponseDto,
   AuthResponseDto,
   UserResponseDto,
   RefreshTokenResponseDto,
+  CookieAuthResponseDto,
+  CsrfTokenResponseDto,
+  MfaChallengeResponseDto,
+  TwoFactorSetupResponseDto,
+  RecoveryCodesResponseDto,
+  SessionResponseDto,
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+  AuditEventListResponseDto,
+  DataExportRequestDto,
+  DataExportResponseDto,
 } from '../dtos/auth.dto';
 
 /**
@@ -27,7 +61,7 @@ import {
 export const register = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { name, email, password }: RegisterRequestDto = req.body;
 
-  const result = await authService.register(name, email, password);
+  const result = await authService.register(name, email, password, getRequestContext(req));
 
   const response: ApiResponseDto<{ message: string; tempUserId: string }> = {
     success: true,
@@ -45,12 +79,12 @@ export const register = asyncHandler(async (req: AuthRequest, res: Response) =>
 export const verifyEmail = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { userId, code }: VerifyEmailRequestDto = req.body;
 
-  const authResponse = await authService.verifyEmail(userId, code);
+  const authResponse = await authService.verifyEmail(userId, code, getRequestContext(req));
 
-  const response: ApiResponseDto<AuthResponseDto> = {
+  const response: ApiResponseDto<AuthResponseDto | CookieAuthResponseDto> = {
     success: true,
     message: 'Email verified successfully. Welcome!',
-    data: authResponse,
+    data: deliverTokens(req, res, authResponse),
   };
 
   res.status(200).json(response);
@@ -81,12 +115,86 @@ export const resendVerification = asyncHandler(async (req: AuthRequest, res: Res
 export const login = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { email, password }: LoginRequestDto = req.body;
 
-  const authResponse = await authService.login(email, password);
+  const result = await authService.login(email, password, getRequestContext(req));
+
+  if ('mfaRequired' in result) {
+    const response: ApiResponseDto<MfaChallengeResponseDto> = {
+      success: true,
+      message: 'Two-factor authentication required',
+      data: result,
+    };
+
+    return res.status(200).json(response);
+  }
+
+  const response: ApiResponseDto<AuthResponseDto | CookieAuthResponseDto> = {
+    success: true,
+    message: 'Login successful',
+    data: deliverTokens(req, res, result),
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Complete login with a two-factor code
+ * @route POST /api/auth/login/mfa
+ */
+export const loginMfa = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { mfaToken, code, recoveryCode }: LoginMfaRequestDto = req.body;
+
+  const authResponse = await authService.loginWithMfa(mfaToken, { code, recoveryCode }, getRequestContext(req));
 
-  const response: ApiResponseDto<AuthResponseDto> = {
+  const response: ApiResponseDto<AuthResponseDto | CookieAuthResponseDto> = {
     success: true,
     message: 'Login successful',
-    data: authResponse,
+    data: deliverTokens(req, res, authResponse),
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Request a passwordless sign-in link / code
+ * @route POST /api/auth/magic-link
+ */
+export const requestMagicLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { email }: MagicLinkRequestDto = req.body;
+
+  const result = await authService.requestMagicLink(email);
+
+  const response: ApiResponseDto<{ message: string }> = {
+    success: true,
+    message: result.message,
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Sign in with a magic link token or emailed code
+ * @route POST /api/auth/magic-link/verify
+ */
+export const verifyMagicLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token, email, code }: VerifyMagicLinkRequestDto = req.body;
+
+  const result = await authService.loginWithMagicLink({ token, email, code }, getRequestContext(req));
+
+  if ('mfaRequired' in result) {
+    const response: ApiResponseDto<MfaChallengeResponseDto> = {
+      success: true,
+      message: 'Two-factor authentication required',
+      data: result,
+    };
+
+    return res.status(200).json(response);
+  }
+
+  const response: ApiResponseDto<AuthResponseDto | CookieAuthResponseDto> = {
+    success: true,
+    message: 'Login successful',
+    data: deliverTokens(req, res, result),
   };
 
   res.status(200).json(response);
@@ -101,10 +209,11 @@ export const getMe = asyncHandler(async (req: AuthRequest, res: Response) => {
 
   const user = await authService.getProfile(userId);
 
-  const response: ApiResponseDto<{ user: UserResponseDto }> = {
+  // Lets the client show a banner while support is acting as this user
+  const response: ApiResponseDto<{ user: UserResponseDto; impersonatedBy?: string }> = {
     success: true,
     message: 'User profile retrieved successfully',
-    data: { user },
+    data: { user, ...(req.impersonatedBy && { impersonatedBy: req.impersonatedBy }) },
   };
 
   res.status(200).json(response);
@@ -115,14 +224,36 @@ export const getMe = asyncHandler(async (req: AuthRequest, res: Response) => {
  * @route POST /api/auth/refresh
  */
 export const refreshToken = asyncHandler(async (req: AuthRequest, res: Response) => {
+  // Cookie-mode clients send no body - the refresh token is in its cookie
   const { refreshToken }: RefreshTokenRequestDto = req.body;
+  const presentedToken = refreshToken || (usesCookieAuth(req) && getCookie(req, REFRESH_TOKEN_COOKIE)) || '';
 
-  const tokens = await authService.refreshToken(refreshToken);
+  const tokens = await authService.refreshToken(presentedToken, getRequestContext(req));
 
-  const response: ApiResponseDto<RefreshTokenResponseDto> = {
+  const response: ApiResponseDto<RefreshTokenResponseDto | CsrfTokenResponseDto> = {
     success: true,
     message: 'Token refreshed successfully',
-    data: tokens,
+    data: deliverTokens(req, res, tokens),
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Get the CSRF token for cookie mode, e.g. after a page reload lost it from memory
+ * @route GET /api/auth/csrf
+ */
+export const getCsrfToken = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!cookieAuthConfig.enabled) {
+    throw new AppError('Cookie sessions are not enabled', 404);
+  }
+
+  const csrfToken = getCookie(req, CSRF_TOKEN_COOKIE) || issueCsrfToken(res);
+
+  const response: ApiResponseDto<CsrfTokenResponseDto> = {
+    success: true,
+    message: 'CSRF token retrieved successfully',
+    data: { csrfToken },
   };
 
   res.status(200).json(response);
@@ -171,12 +302,23 @@ export const verifyResetCode = asyncHandler(async (req: AuthRequest, res: Respon
 export const resetPassword = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { email, code, password }: ResetPasswordRequestDto = req.body;
 
-  const authResponse = await authService.resetPassword(email, code, password);
+  const result = await authService.resetPassword(email, code, password, getRequestContext(req));
 
-  const response: ApiResponseDto<AuthResponseDto> = {
+  // The new password is set, but 2FA accounts still have to pass the second factor to sign in
+  if ('mfaRequired' in result) {
+    const response: ApiResponseDto<MfaChallengeResponseDto> = {
+      success: true,
+      message: 'Password reset successful. Two-factor authentication required',
+      data: result,
+    };
+
+    return res.status(200).json(response);
+  }
+
+  const response: ApiResponseDto<AuthResponseDto | CookieAuthResponseDto> = {
     success: true,
     message: 'Password reset successful',
-    data: authResponse,
+    data: deliverTokens(req, res, result),
   };
 
   res.status(200).json(response);
@@ -190,7 +332,7 @@ export const updateProfile = asyncHandler(async (req: AuthRequest, res: Response
   const userId = req.user!.id;
   const { name }: UpdateProfileRequestDto = req.body;
 
-  const user = await authService.updateProfile(userId, name);
+  const user = await authService.updateProfile(userId, name, getRequestContext(req));
 
   const response: ApiResponseDto<{ user: UserResponseDto }> = {
     success: true,
@@ -201,6 +343,62 @@ export const updateProfile = asyncHandler(async (req: AuthRequest, res: Response
   res.status(200).json(response);
 });
 
+/**
+ * Request an email address change
+ * @route POST /api/auth/change-email
+ */
+export const changeEmail = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { newEmail, password }: ChangeEmailRequestDto = req.body;
+
+  const result = await authService.requestEmailChange(userId, newEmail, password);
+
+  const response: ApiResponseDto<{ message: string }> = {
+    success: true,
+    message: result.message,
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Confirm an email address change with the code sent to the new address
+ * @route POST /api/auth/change-email/confirm
+ */
+export const confirmEmailChange = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { code }: ConfirmEmailChangeRequestDto = req.body;
+
+  const result = await authService.confirmEmailChange(userId, code);
+
+  const response: ApiResponseDto<{ email: string }> = {
+    success: true,
+    message: 'Email changed successfully. Please log in again.',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Undo an email address change from the link sent to the old address
+ * @route POST /api/auth/change-email/undo
+ */
+export const undoEmailChange = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token }: UndoEmailChangeRequestDto = req.body;
+
+  const result = await authService.undoEmailChange(token);
+
+  const response: ApiResponseDto<{ message: string }> = {
+    success: true,
+    message: result.message,
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
 /**
  * Change password
  * @route PUT /api/auth/change-password
@@ -209,7 +407,7 @@ export const changePassword = asyncHandler(async (req: AuthRequest, res: Respons
   const userId = req.user!.id;
   const { currentPassword, newPassword }: ChangePasswordRequestDto = req.body;
 
-  await authService.changePassword(userId, currentPassword, newPassword);
+  await authService.changePassword(userId, currentPassword, newPassword, req.auth?.sid, getRequestContext(req));
 
   const response: ApiResponseDto = {
     success: true,
@@ -220,13 +418,13 @@ export const changePassword = asyncHandler(async (req: AuthRequest, res: Respons
 });
 
 /**
- * Logout user (client-side token removal)
+ * Logout user (revokes the current session and its refresh token)
  * @route POST /api/auth/logout
  */
 export const logout = asyncHandler(async (req: AuthRequest, res: Response) => {
-  // Since we're using JWT tokens, logout is handled client-side
-  // This endpoint exists for consistency and future server-side token blacklisting
-  
+  await authService.logout(req.auth, getRequestContext(req));
+  clearAuthCookies(res);
+
   const response: ApiResponseDto = {
     success: true,
     message: 'Logout successful',
@@ -235,6 +433,285 @@ export const logout = asyncHandler(async (req: AuthRequest, res: Response) => {
   res.status(200).json(response);
 });
 
+/**
+ * Start two-factor enrollment
+ * @route POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  const setup = await authService.setupTwoFactor(userId);
+
+  const response: ApiResponseDto<TwoFactorSetupResponseDto> = {
+    success: true,
+    message: 'Scan the QR code with your authenticator app, then confirm with a code',
+    data: setup,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Confirm two-factor enrollment
+ * @route POST /api/auth/2fa/confirm
+ */
+export const confirmTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { code }: ConfirmTwoFactorRequestDto = req.body;
+
+  const result = await authService.confirmTwoFactor(userId, code);
+
+  const response: ApiResponseDto<RecoveryCodesResponseDto> = {
+    success: true,
+    message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Disable two-factor authentication
+ * @route POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { password }: DisableTwoFactorRequestDto = req.body;
+
+  await authService.disableTwoFactor(userId, password);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Two-factor authentication disabled',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Regenerate two-factor recovery codes
+ * @route POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { password }: RegenerateRecoveryCodesRequestDto = req.body;
+
+  const result = await authService.regenerateRecoveryCodes(userId, password);
+
+  const response: ApiResponseDto<RecoveryCodesResponseDto> = {
+    success: true,
+    message: 'Recovery codes regenerated. Previous codes no longer work.',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * List active sessions (devices the user is logged in on)
+ * @route GET /api/auth/sessions
+ */
+export const getSessions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  const sessions = await authService.getSessions(userId, req.auth?.sid);
+
+  const response: ApiResponseDto<{ sessions: SessionResponseDto[] }> = {
+    success: true,
+    message: 'Sessions retrieved successfully',
+    data: { sessions },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Recent security activity (logins, password changes, ...) on the account
+ * @route GET /api/auth/activity
+ */
+export const getActivity = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const page = req.query.page !== undefined ? Number(req.query.page) : undefined;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+
+  if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+    throw new AppError('page and limit must be positive numbers', 400);
+  }
+
+  const result = await authService.getActivity(userId, { page, limit });
+
+  const response: ApiResponseDto<AuditEventListResponseDto> = {
+    success: true,
+    message: 'Account activity retrieved successfully',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Request a GDPR export of everything held about the account
+ * @route POST /api/auth/export
+ */
+export const requestDataExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { format }: DataExportRequestDto = req.body || {};
+
+  const dataExport = await authService.requestDataExport(userId, format, getRequestContext(req));
+
+  const response: ApiResponseDto<{ export: DataExportResponseDto }> = {
+    success: true,
+    message: 'Your data export is being prepared. We will email you a download link when it is ready.',
+    data: { export: dataExport },
+  };
+
+  res.status(202).json(response);
+});
+
+/**
+ * List recent data exports
+ * @route GET /api/auth/export
+ */
+export const getDataExports = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  const exports = await authService.getDataExports(userId);
+
+  const response: ApiResponseDto<{ exports: DataExportResponseDto[] }> = {
+    success: true,
+    message: 'Data exports retrieved successfully',
+    data: { exports },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Download a finished data export (link from the notification email)
+ * @route GET /api/auth/export/download?token=...
+ */
+export const downloadDataExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  const file = await authService.downloadDataExport(token);
+
+  res.status(200)
+    .set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      'Cache-Control': 'no-store',
+    })
+    .send(file.data);
+});
+
+/**
+ * Revoke a single session
+ * @route DELETE /api/auth/sessions/:id
+ */
+export const revokeSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await authService.revokeSession(userId, req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Session revoked successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Sign out of every other session
+ * @route DELETE /api/auth/sessions
+ */
+export const revokeOtherSessions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  const result = await authService.revokeOtherSessions(userId, req.auth?.sid);
+
+  const response: ApiResponseDto<{ revokedCount: number }> = {
+    success: true,
+    message: 'Signed out of all other sessions',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Create a personal API key
+ * @route POST /api/auth/api-keys
+ */
+export const createApiKey = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { name, scopes, expiresInDays }: CreateApiKeyRequestDto = req.body;
+
+  const result = await authService.createApiKey(userId, name, scopes, expiresInDays);
+
+  const response: ApiResponseDto<CreatedApiKeyResponseDto> = {
+    success: true,
+    message: 'API key created. Copy it now - it will not be shown again.',
+    data: result,
+  };
+
+  res.status(201).json(response);
+});
+
+/**
+ * List personal API keys
+ * @route GET /api/auth/api-keys
+ */
+export const getApiKeys = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  const apiKeys = await authService.getApiKeys(userId);
+
+  const response: ApiResponseDto<{ apiKeys: ApiKeyResponseDto[] }> = {
+    success: true,
+    message: 'API keys retrieved successfully',
+    data: { apiKeys },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Rename a personal API key or change its scopes
+ * @route PUT /api/auth/api-keys/:id
+ */
+export const updateApiKey = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { name, scopes }: UpdateApiKeyRequestDto = req.body;
+
+  const apiKey = await authService.updateApiKey(userId, req.params.id, { name, scopes });
+
+  const response: ApiResponseDto<{ apiKey: ApiKeyResponseDto }> = {
+    success: true,
+    message: 'API key updated successfully',
+    data: { apiKey },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Revoke a personal API key
+ * @route DELETE /api/auth/api-keys/:id
+ */
+export const revokeApiKey = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await authService.revokeApiKey(userId, req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'API key revoked successfully',
+  };
+
+  res.status(200).json(response);
+});
+
 /**
  * Delete user account
  * @route DELETE /api/auth/account
@@ -243,11 +720,31 @@ export const deleteAccount = asyncHandler(async (req: AuthRequest, res: Response
   const userId = req.user!.id;
   const { password }: DeleteAccountRequestDto = req.body;
 
-  await authService.deleteAccount(userId, password);
+  const result = await authService.deleteAccount(userId, password, getRequestContext(req));
+  clearAuthCookies(res);
 
-  const response: ApiResponseDto = {
+  const response: ApiResponseDto<{ scheduledFor: string }> = {
     success: true,
-    message: 'Account deleted successfully',
+    message: 'Account deleted. You can restore it by logging in or using the link we emailed you before it is permanently removed.',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Restore an account pending deletion (link from the confirmation email)
+ * @route POST /api/auth/account/restore
+ */
+export const restoreAccount = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token }: RestoreAccountRequestDto = req.body;
+
+  const result = await authService.restoreAccount(token, getRequestContext(req));
+
+  const response: ApiResponseDto<{ message: string }> = {
+    success: true,
+    message: result.message,
+    data: result,
   };
 
   res.status(200).json(response);
@@ -0,0 +1,233 @@
+import { Response } from 'express';
+import { AuthRequest, ResourceOwnerResolver, VideoEvent } from '../types';
+import { videoService } from '../services/video.service';
+import { videoEventService, VideoEventFilter } from '../services/videoEvents.service';
+import { EventStream, openEventStream } from '../utils/sse';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAuthRejection } from '../middleware/auth';
+import { videoEventsConfig } from '../config/videoGeneration';
+import { ApiResponseDto } from '../dtos/auth.dto';
+import { CreateVideoRequestDto, VideoResponseDto, VideoListResponseDto } from '../dtos/video.dto';
+
+/**
+ * Owner lookup for checkResourceOwnership on `/:id` routes
+ */
+export const videoOwner: ResourceOwnerResolver = req => videoService.getOwner(req.params.id);
+
+/**
+ * Queue a video generation job
+ * @route POST /api/videos
+ */
+export const createVideo = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { prompt, template, resolution, aspectRatio, durationSeconds }: CreateVideoRequestDto = req.body;
+
+  const workspace = req.workspace && { id: req.workspace._id.toString(), role: req.workspaceRole };
+  const video = await videoService.createVideo(
+    req.user!.id,
+    { prompt, template, resolution, aspectRatio, durationSeconds },
+    workspace
+  );
+
+  const response: ApiResponseDto<{ video: VideoResponseDto }> = {
+    success: true,
+    message: 'Video queued for generation',
+    data: { video },
+  };
+
+  res.status(202).json(response);
+});
+
+/**
+ * List your videos, or the selected workspace's
+ * @route GET /api/videos
+ */
+export const getVideos = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const page = req.query.page !== undefined ? Number(req.query.page) : undefined;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+
+  if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+    throw new AppError('page and limit must be positive numbers', 400);
+  }
+
+  const status = req.query.status !== undefined ? String(req.query.status) : undefined;
+  const result = await videoService.listVideos(req.user!.id, { page, limit, status }, req.workspace?._id.toString());
+
+  const response: ApiResponseDto<VideoListResponseDto> = {
+    success: true,
+    message: 'Videos retrieved successfully',
+    data: result,
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Get a video and its generation status
+ * @route GET /api/videos/:id
+ */
+export const getVideo = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const video = await videoService.getVideo(req.params.id);
+
+  const response: ApiResponseDto<{ video: VideoResponseDto }> = {
+    success: true,
+    message: 'Video retrieved successfully',
+    data: { video },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Cancel a queued or processing job
+ * @route POST /api/videos/:id/cancel
+ */
+export const cancelVideo = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const video = await videoService.cancelVideo(req.params.id);
+
+  const response: ApiResponseDto<{ video: VideoResponseDto }> = {
+    success: true,
+    message: 'Video generation cancelled',
+    data: { video },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Queue a failed or cancelled job again
+ * @route POST /api/videos/:id/retry
+ */
+export const retryVideo = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const video = await videoService.retryVideo(req.params.id);
+
+  const response: ApiResponseDto<{ video: VideoResponseDto }> = {
+    success: true,
+    message: 'Video queued for generation',
+    data: { video },
+  };
+
+  res.status(202).json(response);
+});
+
+/**
+ * Delete a video
+ * @route DELETE /api/videos/:id
+ */
+export const deleteVideo = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await videoService.deleteVideo(req.params.id);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Video deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * End a stream once the credentials it was opened with stop being valid: at
+ * the access token's expiry, or when a periodic re-check finds the token
+ * revoked, the account restricted or the workspace membership gone.
+ * The client is told why before the stream closes.
+ */
+const watchAuthorization = (req: AuthRequest, stream: EventStream) => {
+  const end = (rejection: { message: string; code: string }) => {
+    stream.send('unauthorized', rejection);
+    stream.close();
+  };
+
+  const expiry = req.auth?.exp
+    ? setTimeout(
+      () => end({ message: 'Access token expired. Please refresh your token.', code: 'TOKEN_EXPIRED' }),
+      Math.max(0, req.auth.exp * 1000 - Date.now())
+    )
+    : null;
+
+  let checking = false;
+  const recheck = setInterval(async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      const rejection = await getAuthRejection(req);
+      if (rejection) end(rejection);
+    } catch (error) {
+      // Keep the stream; the next check tries again
+      console.error('❌ Failed to re-check event stream authorization:', error);
+    } finally {
+      checking = false;
+    }
+  }, videoEventsConfig.authRecheckMs);
+
+  stream.onClose(() => {
+    if (expiry) clearTimeout(expiry);
+    clearInterval(recheck);
+  });
+};
+
+/**
+ * Stream matching video events as Server-Sent Events. A client resuming with
+ * a Last-Event-ID gets the events it missed; if those are no longer held
+ * (or it is not resuming) it gets whatever `catchUp` returns instead.
+ */
+const streamEvents = async (
+  req: AuthRequest,
+  res: Response,
+  filter: VideoEventFilter,
+  catchUp: (resuming: boolean) => Promise<{ event: string; data: unknown } | null>
+) => {
+  const lastEventId = req.get('Last-Event-ID');
+
+  // Subscribe before catching up so nothing published in between is lost
+  const pending: VideoEvent[] = [];
+  let deliver = (event: VideoEvent) => {
+    pending.push(event);
+  };
+  const unsubscribe = videoEventService.subscribe(filter, event => deliver(event));
+
+  try {
+    const missed = lastEventId ? videoEventService.replaySince(lastEventId, filter) : null;
+    const initial = missed ? null : await catchUp(!!lastEventId);
+    // The client went away while we were catching up
+    if (req.destroyed) {
+      unsubscribe();
+      return;
+    }
+
+    const stream = openEventStream(req, res, req.user!.id);
+    stream.onClose(unsubscribe);
+    watchAuthorization(req, stream);
+
+    deliver = event => stream.send(event.type, event, event.id);
+    if (initial) {
+      // No id, so the client's Last-Event-ID still points at a real event
+      stream.send(initial.event, initial.data);
+    }
+    missed?.forEach(deliver);
+    pending.forEach(deliver);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+};
+
+/**
+ * Stream a video's status and progress changes
+ * @route GET /api/videos/:id/events
+ */
+export const streamVideoEvents = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await streamEvents(req, res, { videoId: req.params.id }, async () => {
+    const snapshot = await videoService.getEventSnapshot(req.params.id);
+    return { event: snapshot.type, data: snapshot };
+  });
+});
+
+/**
+ * Stream changes to all your videos, or the selected workspace's
+ * @route GET /api/videos/events
+ */
+export const streamMyVideoEvents = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const filter = req.workspace ? { workspaceId: req.workspace._id.toString() } : { userId: req.user!.id };
+
+  // Too many videos to snapshot - a resuming client that missed events refetches its list
+  await streamEvents(req, res, filter, async resuming => (resuming ? { event: 'resync', data: {} } : null));
+});
@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getKeyRing } from '../utils/keyring';
+
+/**
+ * Publish the public keys used to sign access tokens
+ * @route GET /.well-known/jwks.json
+ */
+export const getJwks = asyncHandler(async (req: Request, res: Response) => {
+  // Short cache so verifiers pick up rotated keys quickly
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(getKeyRing().getJwks());
+});
@@ -0,0 +1,231 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { workspaceService } from '../services/workspace.service';
+import { asyncHandler } from '../middleware/errorHandler';
+import { ApiResponseDto } from '../dtos/auth.dto';
+import {
+  CreateWorkspaceRequestDto,
+  UpdateWorkspaceRequestDto,
+  InviteMemberRequestDto,
+  ChangeMemberRoleRequestDto,
+  InvitationTokenRequestDto,
+  WorkspaceResponseDto,
+  WorkspaceMemberResponseDto,
+  WorkspaceInvitationResponseDto,
+} from '../dtos/workspace.dto';
+
+/**
+ * Create a workspace owned by the current user
+ * @route POST /api/workspaces
+ */
+export const createWorkspace = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name }: CreateWorkspaceRequestDto = req.body;
+
+  const workspace = await workspaceService.createWorkspace(req.user!.id, name);
+
+  const response: ApiResponseDto<{ workspace: WorkspaceResponseDto }> = {
+    success: true,
+    message: 'Workspace created successfully',
+    data: { workspace },
+  };
+
+  res.status(201).json(response);
+});
+
+/**
+ * List the workspaces the current user belongs to
+ * @route GET /api/workspaces
+ */
+export const getWorkspaces = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const workspaces = await workspaceService.listWorkspaces(req.user!.id);
+
+  const response: ApiResponseDto<{ workspaces: WorkspaceResponseDto[] }> = {
+    success: true,
+    message: 'Workspaces retrieved successfully',
+    data: { workspaces },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Get a workspace
+ * @route GET /api/workspaces/:workspaceId
+ */
+export const getWorkspace = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const workspace = await workspaceService.getWorkspace(req.user!.id, req.params.workspaceId);
+
+  const response: ApiResponseDto<{ workspace: WorkspaceResponseDto }> = {
+    success: true,
+    message: 'Workspace retrieved successfully',
+    data: { workspace },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Rename a workspace
+ * @route PUT /api/workspaces/:workspaceId
+ */
+export const updateWorkspace = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name }: UpdateWorkspaceRequestDto = req.body;
+
+  const workspace = await workspaceService.renameWorkspace(req.user!.id, req.params.workspaceId, name);
+
+  const response: ApiResponseDto<{ workspace: WorkspaceResponseDto }> = {
+    success: true,
+    message: 'Workspace updated successfully',
+    data: { workspace },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Delete a workspace
+ * @route DELETE /api/workspaces/:workspaceId
+ */
+export const deleteWorkspace = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await workspaceService.deleteWorkspace(req.user!.id, req.params.workspaceId);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Workspace deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * List workspace members
+ * @route GET /api/workspaces/:workspaceId/members
+ */
+export const getMembers = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const members = await workspaceService.listMembers(req.user!.id, req.params.workspaceId);
+
+  const response: ApiResponseDto<{ members: WorkspaceMemberResponseDto[] }> = {
+    success: true,
+    message: 'Members retrieved successfully',
+    data: { members },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Change a member's role
+ * @route PUT /api/workspaces/:workspaceId/members/:userId
+ */
+export const changeMemberRole = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { role }: ChangeMemberRoleRequestDto = req.body;
+
+  const member = await workspaceService.changeMemberRole(req.user!.id, req.params.workspaceId, req.params.userId, role);
+
+  const response: ApiResponseDto<{ member: { userId: string; role: string } }> = {
+    success: true,
+    message: 'Member role updated successfully',
+    data: { member },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Remove a member, or leave the workspace when removing yourself
+ * @route DELETE /api/workspaces/:workspaceId/members/:userId
+ */
+export const removeMember = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await workspaceService.removeMember(req.user!.id, req.params.workspaceId, req.params.userId);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: req.params.userId === req.user!.id ? 'You have left the workspace' : 'Member removed successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Invite someone to the workspace by email
+ * @route POST /api/workspaces/:workspaceId/invitations
+ */
+export const inviteMember = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { email, role }: InviteMemberRequestDto = req.body;
+
+  const invitation = await workspaceService.inviteMember(req.user!.id, req.params.workspaceId, email, role);
+
+  const response: ApiResponseDto<{ invitation: WorkspaceInvitationResponseDto }> = {
+    success: true,
+    message: 'Invitation sent successfully',
+    data: { invitation },
+  };
+
+  res.status(201).json(response);
+});
+
+/**
+ * List pending invitations
+ * @route GET /api/workspaces/:workspaceId/invitations
+ */
+export const getInvitations = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const invitations = await workspaceService.listInvitations(req.user!.id, req.params.workspaceId);
+
+  const response: ApiResponseDto<{ invitations: WorkspaceInvitationResponseDto[] }> = {
+    success: true,
+    message: 'Invitations retrieved successfully',
+    data: { invitations },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Withdraw a pending invitation
+ * @route DELETE /api/workspaces/:workspaceId/invitations/:invitationId
+ */
+export const revokeInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await workspaceService.revokeInvitation(req.user!.id, req.params.workspaceId, req.params.invitationId);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Invitation revoked successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Accept an emailed invitation as the signed-in user
+ * @route POST /api/workspaces/invitations/accept
+ */
+export const acceptInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token }: InvitationTokenRequestDto = req.body;
+
+  const workspace = await workspaceService.acceptInvitation(req.user!.id, token);
+
+  const response: ApiResponseDto<{ workspace: WorkspaceResponseDto }> = {
+    success: true,
+    message: `You have joined ${workspace.name}`,
+    data: { workspace },
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Decline an emailed invitation
+ * @route POST /api/workspaces/invitations/decline
+ */
+export const declineInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token }: InvitationTokenRequestDto = req.body;
+
+  await workspaceService.declineInvitation(token);
+
+  const response: ApiResponseDto = {
+    success: true,
+    message: 'Invitation declined',
+  };
+
+  res.status(200).json(response);
+});
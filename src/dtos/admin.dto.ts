@@ -0,0 +1,97 @@
+/**
+ * Admin DTOs
+ * Data Transfer Objects for administration endpoints
+ */
+
+// Request DTOs
+export interface CreateRoleRequestDto {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface UpdateRoleRequestDto {
+  description?: string;
+  permissions?: string[];
+}
+
+export interface AssignRolesRequestDto {
+  roles: string[];
+}
+
+export interface ChangePlanRequestDto {
+  plan: 'free' | 'pro' | 'premium';
+}
+
+export interface SetAdminRequestDto {
+  isAdmin: boolean;
+}
+
+export interface SetAccountStatusRequestDto {
+  status: 'active' | 'suspended' | 'banned';
+  reason?: string;
+  suspendedUntil?: string;
+}
+
+// Response DTOs
+export interface RoleResponseDto {
+  name: string;
+  description?: string;
+  permissions: string[];
+  builtIn: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface UserRolesResponseDto {
+  id: string;
+  roles: string[];
+  permissions: string[];
+}
+
+export interface AdminUserSummaryDto {
+  id: string;
+  name: string;
+  email: string;
+  plan: 'free' | 'pro' | 'premium';
+  roles: string[];
+  isAdmin: boolean;
+  isEmailVerified: boolean;
+  status: 'active' | 'suspended' | 'banned';
+  suspendedUntil?: string;
+  statusReason?: string;
+  deletionScheduledFor?: string;
+  twoFactorEnabled: boolean;
+  videosGenerated: number;
+  lastLogin?: string;
+  createdAt: string;
+}
+
+export interface AdminUserDetailDto extends AdminUserSummaryDto {
+  permissions: string[];
+  connectedPlatforms: string[];
+  pendingEmail?: string;
+  pendingEmailExpires?: string;
+  activeSessions: number;
+  activeApiKeys: number;
+  updatedAt: string;
+}
+
+export interface PaginationDto {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface UserListResponseDto {
+  users: AdminUserSummaryDto[];
+  pagination: PaginationDto;
+}
+
+export interface ImpersonationResponseDto {
+  accessToken: string;
+  expiresIn: number;
+  impersonatedBy: string;
+  user: AdminUserSummaryDto;
+}
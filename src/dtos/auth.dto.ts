@@ -14,6 +14,22 @@ export interface LoginRequestDto {
   password: string;
 }
 
+export interface LoginMfaRequestDto {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MagicLinkRequestDto {
+  email: string;
+}
+
+export interface VerifyMagicLinkRequestDto {
+  token?: string;
+  email?: string;
+  code?: string;
+}
+
 export interface RefreshTokenRequestDto {
   refreshToken: string;
 }
@@ -46,6 +62,19 @@ export interface UpdateProfileRequestDto {
   name: string;
 }
 
+export interface ChangeEmailRequestDto {
+  newEmail: string;
+  password: string;
+}
+
+export interface ConfirmEmailChangeRequestDto {
+  code: string;
+}
+
+export interface UndoEmailChangeRequestDto {
+  token: string;
+}
+
 export interface ChangePasswordRequestDto {
   currentPassword: string;
   newPassword: string;
@@ -55,29 +84,152 @@ export interface DeleteAccountRequestDto {
   password: string;
 }
 
+export interface RestoreAccountRequestDto {
+  token: string;
+}
+
+export interface ConfirmTwoFactorRequestDto {
+  code: string;
+}
+
+export interface DisableTwoFactorRequestDto {
+  password: string;
+}
+
+export interface RegenerateRecoveryCodesRequestDto {
+  password: string;
+}
+
+export interface CreateApiKeyRequestDto {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+export interface UpdateApiKeyRequestDto {
+  name?: string;
+  scopes?: string[];
+}
+
+export interface DataExportRequestDto {
+  format?: 'json' | 'zip';
+}
+
 export interface UserResponseDto {
   id: string;
   name: string;
   email: string;
   plan: 'free' | 'pro' | 'premium';
   isAdmin: boolean;
+  roles: string[];
   connectedPlatforms: string[];
   videosGenerated: number;
+  twoFactorEnabled?: boolean;
   lastLogin?: string;
   createdAt?: string;
 }
 
+export interface AuditEventResponseDto {
+  id: string;
+  type: string;
+  outcome: 'success' | 'failure';
+  userId?: string;
+  actorId?: string;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventListResponseDto {
+  events: AuditEventResponseDto[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface DataExportResponseDto {
+  id: string;
+  status: 'pending' | 'processing' | 'ready' | 'failed';
+  format: 'json' | 'zip';
+  size?: number;
+  error?: string;
+  completedAt?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
 export interface AuthResponseDto {
   user: UserResponseDto;
   token: string;
   refreshToken: string;
 }
 
+export interface MfaChallengeResponseDto {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorSetupResponseDto {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface RecoveryCodesResponseDto {
+  recoveryCodes: string[];
+}
+
 export interface RefreshTokenResponseDto {
   token: string;
   refreshToken: string;
 }
 
+// Cookie mode: the tokens are set as HttpOnly cookies and the body carries the CSRF token
+export interface CookieAuthResponseDto {
+  user: UserResponseDto;
+  csrfToken: string;
+}
+
+export interface CsrfTokenResponseDto {
+  csrfToken: string;
+}
+
+export interface SessionResponseDto {
+  id: string;
+  device: {
+    browser: string;
+    os: string;
+    type: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+  };
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
+export interface ApiKeyResponseDto {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface CreatedApiKeyResponseDto {
+  apiKey: ApiKeyResponseDto;
+  key: string;
+}
+
 export interface ApiResponseDto<T = any> {
   success: boolean;
   message: string;
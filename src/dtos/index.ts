@@ -4,8 +4,10 @@
  */
 
 export * from './auth.dto';
+export * from './admin.dto';
+export * from './workspace.dto';
+export * from './video.dto';
 
 // Future DTOs can be added here:
 // export * from './user.dto';
-// export * from './video.dto';
 // export * from './payment.dto';
@@ -0,0 +1,52 @@
+/**
+ * Video DTOs
+ * Data Transfer Objects for video generation endpoints
+ */
+
+import { PaginationDto } from './admin.dto';
+
+// Request DTOs
+export interface CreateVideoRequestDto {
+  prompt: string;
+  template?: string;
+  resolution?: '480p' | '720p' | '1080p' | '4k';
+  aspectRatio?: '16:9' | '9:16' | '1:1' | '4:5';
+  durationSeconds?: number;
+}
+
+// Response DTOs
+export interface VideoOutputDto {
+  url: string;
+  thumbnailUrl?: string;
+  format: string;
+  width: number;
+  height: number;
+  durationSeconds: number;
+  sizeBytes?: number;
+}
+
+export interface VideoResponseDto {
+  id: string;
+  userId: string;
+  workspaceId?: string;
+  prompt: string;
+  template?: string;
+  resolution: '480p' | '720p' | '1080p' | '4k';
+  aspectRatio: '16:9' | '9:16' | '1:1' | '4:5';
+  durationSeconds: number;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  error?: string;
+  output?: VideoOutputDto;
+  attempts: number;
+  startedAt?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VideoListResponseDto {
+  videos: VideoResponseDto[];
+  pagination: PaginationDto;
+}
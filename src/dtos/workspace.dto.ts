@@ -0,0 +1,55 @@
+/**
+ * Workspace DTOs
+ * Data Transfer Objects for workspace and membership endpoints
+ */
+
+// Request DTOs
+export interface CreateWorkspaceRequestDto {
+  name: string;
+}
+
+export interface UpdateWorkspaceRequestDto {
+  name: string;
+}
+
+export interface InviteMemberRequestDto {
+  email: string;
+  role: 'admin' | 'editor' | 'viewer';
+}
+
+export interface ChangeMemberRoleRequestDto {
+  role: 'admin' | 'editor' | 'viewer';
+}
+
+export interface InvitationTokenRequestDto {
+  token: string;
+}
+
+// Response DTOs
+export interface WorkspaceResponseDto {
+  id: string;
+  name: string;
+  ownerId: string;
+  role?: 'owner' | 'admin' | 'editor' | 'viewer';
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface WorkspaceMemberResponseDto {
+  userId: string;
+  name?: string;
+  email?: string;
+  role: 'owner' | 'admin' | 'editor' | 'viewer';
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitationResponseDto {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: 'admin' | 'editor' | 'viewer';
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  invitedBy: string;
+  expiresAt: string;
+  createdAt: string;
+}
@@ -1,16 +1,211 @@
-import { Response, NextFunction } from 'express';
-import { AuthRequest } from '../types';
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope, AuthRequest, IUser, JWTPayload, ResourceOwner, ResourceOwnerResolver, WorkspaceRole } from '../types';
 import { verifyAccessToken, extractTokenFromHeader } from '../utils/jwt';
 import User from '../models/User';
+import { sessionService } from '../services/session.service';
+import { revocationService } from '../services/revocation.service';
+import { apiKeyService } from '../services/apiKey.service';
+import { roleService } from '../services/role.service';
+import { accountStatusService } from '../services/accountStatus.service';
+import { workspaceService } from '../services/workspace.service';
+import { auditService } from '../services/audit.service';
+import { getRequestContext } from '../utils/request';
+import { ACCESS_TOKEN_COOKIE, CSRF_TOKEN_COOKIE, getCookie, hasAuthCookie } from '../utils/authCookies';
+import { cookieAuthConfig } from '../config/security';
+import { hasPermission, hasWorkspaceRole } from '../config/permissions';
 
 /**
- * Middleware to protect routes - requires valid JWT token
+ * Read an API key from `Authorization: ApiKey <key>` or `X-API-Key`
+ */
+const extractApiKey = (req: Request): string | null => {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('ApiKey ')) {
+    return authHeader.substring(7).trim();
+  }
+
+  const headerKey = req.get('x-api-key');
+  return headerKey ? headerKey.trim() : null;
+};
+
+/**
+ * Read the access token from the Authorization header, or from the session cookie in cookie mode
+ */
+const extractAccessToken = (req: Request): string | null => {
+  const headerToken = extractTokenFromHeader(req.headers.authorization);
+  if (headerToken || !cookieAuthConfig.enabled) return headerToken;
+  return getCookie(req, ACCESS_TOKEN_COOKIE) || null;
+};
+
+/**
+ * Check a verified token against server-side state. Returns the reason
+ * the token must be rejected, or null if it is still good.
+ */
+const getTokenRejection = async (
+  decoded: JWTPayload,
+  user: IUser
+): Promise<{ message: string; code: string } | null> => {
+  if ((decoded.tokenVersion || 0) !== (user.tokenVersion || 0)) {
+    return { message: 'Token has been revoked. Please log in again.', code: 'TOKEN_REVOKED' };
+  }
+
+  if (await revocationService.isRevoked(decoded)) {
+    return { message: 'Token has been revoked. Please log in again.', code: 'TOKEN_REVOKED' };
+  }
+
+  // Reject tokens whose session was revoked (logout, password change, reuse)
+  if (decoded.sid && !(await sessionService.isSessionActive(decoded.sid))) {
+    return { message: 'Session has been revoked. Please log in again.', code: 'SESSION_REVOKED' };
+  }
+
+  // Plan or roles changed since the token was issued - client should refresh
+  const tokenRoles = [...(decoded.roles || [])].sort().join(',');
+  const userRoles = [...(user.roles || [])].sort().join(',');
+  if (decoded.plan !== user.plan || tokenRoles !== userRoles) {
+    return { message: 'Token is out of date. Please refresh your token.', code: 'TOKEN_STALE' };
+  }
+
+  return null;
+};
+
+/**
+ * Respond 403 if the account is suspended or banned. Returns true if the response was sent.
+ */
+const rejectRestrictedAccount = async (user: IUser, res: Response): Promise<boolean> => {
+  const restriction = await accountStatusService.getRestriction(user);
+  if (!restriction) return false;
+
+  res.status(403).json({
+    success: false,
+    message: restriction.message,
+    code: restriction.code,
+    ...(restriction.reason && { reason: restriction.reason }),
+    ...(restriction.suspendedUntil && { suspendedUntil: restriction.suspendedUntil.toISOString() }),
+  });
+  return true;
+};
+
+/**
+ * An impersonation token stays usable only while the admin behind it may still impersonate
+ */
+const isImpersonatorAllowed = async (adminId: string): Promise<boolean> => {
+  const admin = await User.findById(adminId);
+  if (!admin || await accountStatusService.getRestriction(admin)) return false;
+
+  const permissions = await roleService.resolvePermissions(admin.roles);
+  return hasPermission(permissions, 'users:impersonate');
+};
+
+/**
+ * Record every request made while impersonating, once its outcome is known
+ */
+const auditImpersonatedRequest = (req: AuthRequest, res: Response): void => {
+  res.on('finish', () => {
+    void auditService.record({
+      type: 'impersonated_request',
+      outcome: res.statusCode < 400 ? 'success' : 'failure',
+      userId: req.user?._id.toString(),
+      actorId: req.impersonatedBy,
+      context: getRequestContext(req),
+      metadata: { method: req.method, path: req.originalUrl.split('?')[0], statusCode: res.statusCode },
+    });
+  });
+};
+
+/**
+ * Select the workspace named by `X-Workspace-Id` for this request. Responds 403
+ * if the user is not a member. Returns true if the response was sent.
+ */
+const rejectUnselectableWorkspace = async (req: AuthRequest, res: Response): Promise<boolean> => {
+  const workspaceId = req.get('x-workspace-id')?.trim();
+  if (!workspaceId || !req.user) return false;
+
+  const membership = await workspaceService.getMembership(workspaceId, req.user._id.toString());
+  if (!membership) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. You are not a member of this workspace.',
+      code: 'WORKSPACE_ACCESS_DENIED',
+    });
+    return true;
+  }
+
+  req.workspace = membership.workspace;
+  req.workspaceRole = membership.role;
+  return false;
+};
+
+/**
+ * Re-check an authenticated request's credentials, for responses that stay
+ * open (event streams) and so outlive the checks `protect` made when they
+ * started. Returns the reason the request must end, or null if it is still good.
+ */
+export const getAuthRejection = async (req: AuthRequest): Promise<{ message: string; code: string } | null> => {
+  const user = req.user && await User.findById(req.user._id);
+  if (!user) {
+    return { message: 'Access denied. User not found.', code: 'USER_NOT_FOUND' };
+  }
+
+  if (req.apiKey) {
+    if (!(await apiKeyService.isActive(req.apiKey._id.toString()))) {
+      return { message: 'Invalid or revoked API key.', code: 'INVALID_API_KEY' };
+    }
+  } else if (req.auth) {
+    if (req.auth.exp && req.auth.exp * 1000 <= Date.now()) {
+      return { message: 'Access token expired. Please refresh your token.', code: 'TOKEN_EXPIRED' };
+    }
+
+    const rejection = await getTokenRejection(req.auth, user);
+    if (rejection) return rejection;
+
+    if (req.auth.impersonatedBy && !(await isImpersonatorAllowed(req.auth.impersonatedBy))) {
+      return { message: 'Impersonation session has ended. Please start a new one.', code: 'IMPERSONATION_REVOKED' };
+    }
+  }
+
+  const restriction = await accountStatusService.getRestriction(user);
+  if (restriction) {
+    return { message: restriction.message, code: restriction.code };
+  }
+
+  if (req.workspace && !(await workspaceService.getMembership(req.workspace._id.toString(), user._id.toString()))) {
+    return { message: 'Access denied. You are not a member of this workspace.', code: 'WORKSPACE_ACCESS_DENIED' };
+  }
+
+  return null;
+};
+
+/**
+ * Middleware to protect routes - requires valid JWT token or API key
  */
 export const protect = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    // Get token from header
-    const authHeader = req.headers.authorization;
-    const token = extractTokenFromHeader(authHeader);
+    // API keys are an alternative to Bearer tokens for scripted access
+    const rawApiKey = extractApiKey(req);
+    if (rawApiKey) {
+      const apiKey = await apiKeyService.authenticate(rawApiKey, req.ip);
+      const user = apiKey && await User.findById(apiKey.user);
+
+      if (!apiKey || !user) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or revoked API key.',
+          code: 'INVALID_API_KEY',
+        });
+      }
+
+      if (await rejectRestrictedAccount(user, res)) return;
+
+      // API keys carry scopes only, never role permissions
+      req.user = user;
+      req.apiKey = apiKey;
+      req.permissions = [];
+      if (await rejectUnselectableWorkspace(req, res)) return;
+      return next();
+    }
+
+    // Get token from header (or the session cookie)
+    const token = extractAccessToken(req);
 
     if (!token) {
       return res.status(401).json({
@@ -32,10 +227,34 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
       });
     }
 
-    // Keep middleware fast and side-effect free
+    const rejection = await getTokenRejection(decoded, user);
+    if (rejection) {
+      return res.status(401).json({
+        success: false,
+        ...rejection,
+      });
+    }
+
+    if (await rejectRestrictedAccount(user, res)) return;
+
+    if (decoded.impersonatedBy && !(await isImpersonatorAllowed(decoded.impersonatedBy))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Impersonation session has ended. Please start a new one.',
+        code: 'IMPERSONATION_REVOKED',
+      });
+    }
 
-    // Add user to request object
+    // Add user to request object. Permissions are resolved from the current
+    // roles so custom role changes apply without waiting for a token refresh.
     req.user = user;
+    req.auth = decoded;
+    req.permissions = await roleService.resolvePermissions(user.roles);
+    if (decoded.impersonatedBy) {
+      req.impersonatedBy = decoded.impersonatedBy;
+      auditImpersonatedRequest(req, res);
+    }
+    if (await rejectUnselectableWorkspace(req, res)) return;
     next();
 
   } catch (error: any) {
@@ -65,20 +284,76 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
 };
 
 /**
- * Middleware to check if user is admin
+ * Middleware to require an API key scope. Interactive (JWT) sessions have full access.
  */
-export const adminOnly = (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. API key is missing the '${scope}' scope.`,
+        code: 'INSUFFICIENT_SCOPE',
+        requiredScope: scope,
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to reject API key authentication (account security actions need a real login)
+ */
+export const disallowApiKey = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.apiKey) {
+    return res.status(403).json({
       success: false,
-      message: 'Access denied. Authentication required.',
+      message: 'This action is not available with an API key. Please log in.',
+      code: 'API_KEY_NOT_ALLOWED',
     });
   }
 
-  if (!req.user.isAdmin) {
+  next();
+};
+
+/**
+ * Double-submit CSRF check for state-changing requests authenticated by cookie.
+ * Requests using the Authorization header or an API key cannot be forged
+ * cross-site, so they are not checked.
+ */
+export const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
+  if (!cookieAuthConfig.enabled || ['GET', 'HEAD', 'OPTIONS'].includes(req.method)) return next();
+  if (req.headers.authorization || extractApiKey(req) || !hasAuthCookie(req)) return next();
+
+  const cookieToken = getCookie(req, CSRF_TOKEN_COOKIE);
+  const headerToken = req.get('x-csrf-token');
+  // Compare byte lengths - non-ASCII characters take more than one byte
+  const cookieBytes = Buffer.from(cookieToken || '');
+  const headerBytes = Buffer.from(headerToken || '');
+  const valid = cookieBytes.length > 0 && headerBytes.length > 0
+    && cookieBytes.length === headerBytes.length
+    && crypto.timingSafeEqual(cookieBytes, headerBytes);
+
+  if (!valid) {
     return res.status(403).json({
       success: false,
-      message: 'Access denied. Admin privileges required.',
+      message: 'Missing or invalid CSRF token.',
+      code: 'CSRF_TOKEN_INVALID',
+    });
+  }
+
+  next();
+};
+
+/**
+ * Middleware to block routes an impersonating admin must not use (credentials, account deletion, ...)
+ */
+export const disallowImpersonation = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.impersonatedBy) {
+    return res.status(403).json({
+      success: false,
+      message: 'This action is not available while impersonating a user.',
+      code: 'IMPERSONATION_NOT_ALLOWED',
     });
   }
 
@@ -114,6 +389,31 @@ export const requirePlan = (requiredPlan: 'free' | 'pro' | 'premium') => {
   };
 };
 
+/**
+ * Middleware to require a role permission, e.g. requirePermission('users:read')
+ */
+export const requirePermission = (permission: string) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Access denied. Authentication required.',
+      });
+    }
+
+    if (!hasPermission(req.permissions || [], permission)) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. '${permission}' permission required.`,
+        code: 'INSUFFICIENT_PERMISSION',
+        requiredPermission: permission,
+      });
+    }
+
+    next();
+  };
+};
+
 /**
  * Middleware to check if user has connected platforms
  */
@@ -140,8 +440,19 @@ export const requireConnectedPlatforms = (req: AuthRequest, res: Response, next:
  */
 export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = extractTokenFromHeader(authHeader);
+    const rawApiKey = extractApiKey(req);
+    if (rawApiKey) {
+      const apiKey = await apiKeyService.authenticate(rawApiKey, req.ip);
+      const user = apiKey && await User.findById(apiKey.user);
+      if (apiKey && user && !(await accountStatusService.getRestriction(user))) {
+        req.user = user;
+        req.apiKey = apiKey;
+        req.permissions = [];
+      }
+      return next();
+    }
+
+    const token = extractAccessToken(req);
 
     if (!token) {
       return next(); // Continue without user
@@ -150,8 +461,15 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
     const decoded = verifyAccessToken(token);
     const user = await User.findById(decoded.id);
     
-    if (user) {
+    if (user && !(await getTokenRejection(decoded, user)) && !(await accountStatusService.getRestriction(user))
+      && (!decoded.impersonatedBy || await isImpersonatorAllowed(decoded.impersonatedBy))) {
       req.user = user;
+      req.auth = decoded;
+      req.permissions = await roleService.resolvePermissions(user.roles);
+      if (decoded.impersonatedBy) {
+        req.impersonatedBy = decoded.impersonatedBy;
+        auditImpersonatedRequest(req, res);
+      }
     }
 
     next();
@@ -163,10 +481,19 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
 };
 
 /**
- * Middleware to check if user owns resource
+ * Middleware to check if user owns resource. Holders of `overridePermission` may access any user's resources.
+ * `resourceOwner` is either the body/param field holding the owner's id, or a resolver that looks the
+ * resource up (responding 404 when it does not exist). With a field name, the resource's workspace can
+ * only come from the route param `resourceWorkspaceIdField`; prefer a resolver so it comes from the resource.
+ * Resources that belong to a workspace are shared with its members when that workspace is selected:
+ * viewers may read them, editors and above may change them.
  */
-export const checkResourceOwnership = (resourceUserIdField: string = 'userId') => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
+export const checkResourceOwnership = (
+  resourceOwner: string | ResourceOwnerResolver = 'userId',
+  overridePermission: string = 'users:write',
+  resourceWorkspaceIdField: string = 'workspaceId'
+) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
         success: false,
@@ -174,19 +501,74 @@ export const checkResourceOwnership = (resourceUserIdField: string = 'userId') =
       });
     }
 
-    const resourceUserId = req.body[resourceUserIdField] || req.params[resourceUserIdField];
+    let resourceUserId: string | undefined;
+    let resourceWorkspaceId: string | undefined;
+
+    if (typeof resourceOwner === 'function') {
+      let owner: ResourceOwner | null;
+      try {
+        owner = await resourceOwner(req);
+      } catch (error) {
+        return next(error);
+      }
+
+      if (!owner) {
+        return res.status(404).json({
+          success: false,
+          message: 'Resource not found.',
+        });
+      }
+
+      resourceUserId = owner.userId;
+      resourceWorkspaceId = owner.workspaceId;
+    } else {
+      resourceUserId = req.body?.[resourceOwner] || req.params[resourceOwner];
+      // Never from the body - a client could name its own workspace to claim someone else's resource
+      resourceWorkspaceId = req.params[resourceWorkspaceIdField];
+    }
     
-    if (!resourceUserId) {
+    if (!resourceUserId && !resourceWorkspaceId) {
       return res.status(400).json({
         success: false,
         message: 'Resource owner information missing.',
       });
     }
 
-    if (resourceUserId !== req.user._id.toString() && !req.user.isAdmin) {
+    if (resourceUserId === req.user._id.toString() || hasPermission(req.permissions || [], overridePermission)) {
+      return next();
+    }
+
+    const requiredRole: WorkspaceRole = ['GET', 'HEAD'].includes(req.method) ? 'viewer' : 'editor';
+    if (resourceWorkspaceId && req.workspace?._id.toString() === String(resourceWorkspaceId)
+      && hasWorkspaceRole(req.workspaceRole, requiredRole)) {
+      return next();
+    }
+
+    return res.status(403).json({
+      success: false,
+      message: 'Access denied. You can only access your own or your workspace\'s resources.',
+    });
+  };
+};
+
+/**
+ * Middleware to require a selected workspace (`X-Workspace-Id`) and a minimum role in it
+ */
+export const requireWorkspaceRole = (role: WorkspaceRole = 'viewer') => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.workspace) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select a workspace with the X-Workspace-Id header.',
+        code: 'WORKSPACE_REQUIRED',
+      });
+    }
+
+    if (!hasWorkspaceRole(req.workspaceRole, role)) {
       return res.status(403).json({
         success: false,
-        message: 'Access denied. You can only access your own resources.',
+        message: `Access denied. This action requires the workspace ${role} role.`,
+        code: 'INSUFFICIENT_WORKSPACE_ROLE',
       });
     }
 
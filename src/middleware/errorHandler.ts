@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { CustomError } from '../types';
+import { CustomError, ValidationError } from '../types';
 
 /**
  * Custom Error Class
@@ -7,16 +7,33 @@ import { CustomError } from '../types';
 export class AppError extends Error implements CustomError {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
+  retryAfter?: number;
+  errors?: ValidationError[];
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string, retryAfter?: number) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    if (code) this.code = code;
+    if (retryAfter !== undefined) this.retryAfter = retryAfter;
 
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+/**
+ * Input failed one or more validation rules - carries every failure
+ */
+export class ValidationFailedError extends AppError {
+  declare errors: ValidationError[];
+
+  constructor(errors: ValidationError[], message: string = 'Validation failed') {
+    super(message, 400, 'VALIDATION_FAILED');
+    this.errors = errors;
+  }
+}
+
 /**
  * Create custom error
  */
@@ -95,6 +112,8 @@ const sendErrorProd = (err: AppError, res: Response) => {
     res.status(err.statusCode).json({
       success: false,
       message: err.message,
+      ...(err.code && { code: err.code }),
+      ...(err.errors && { errors: err.errors }),
     });
   } else {
     // Programming or other unknown error: don't leak error details
@@ -119,6 +138,11 @@ export const globalErrorHandler = (
   err.statusCode = err.statusCode || 500;
   err.status = err.status || 'error';
 
+  // Tell clients when they may retry (throttling and lockouts)
+  if (err.retryAfter !== undefined) {
+    res.setHeader('Retry-After', Math.max(1, Math.ceil(err.retryAfter)).toString());
+  }
+
   if (process.env.NODE_ENV === 'development') {
     sendErrorDev(err, res);
   } else {
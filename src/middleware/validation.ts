@@ -4,6 +4,8 @@ import {
   validateLogin, 
   validateForgotPassword, 
   validateResetPassword,
+  validateMagicLinkRequest,
+  validateChangeEmail,
   sanitizeEmail,
   sanitizeString
 } from '../utils/validation';
@@ -120,6 +122,60 @@ export const validateResetPasswordData = (req: Request, res: Response, next: Nex
   }
 };
 
+/**
+ * Middleware to validate magic link request data
+ */
+export const validateMagicLinkData = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Sanitize inputs
+    if (req.body.email) {
+      req.body.email = sanitizeEmail(req.body.email);
+    }
+
+    // Validate data
+    const errors = validateMagicLinkRequest(req.body);
+    
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors,
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(new AppError('Validation error', 400));
+  }
+};
+
+/**
+ * Middleware to validate change email data
+ */
+export const validateChangeEmailData = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Sanitize inputs
+    if (req.body.newEmail) {
+      req.body.newEmail = sanitizeEmail(req.body.newEmail);
+    }
+
+    // Validate data
+    const errors = validateChangeEmail(req.body);
+    
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors,
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(new AppError('Validation error', 400));
+  }
+};
+
 /**
  * Generic request body sanitizer
  */
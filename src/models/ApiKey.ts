@@ -0,0 +1,62 @@
+import mongoose, { Schema } from 'mongoose';
+import { IApiKey } from '../types';
+
+export const API_KEY_SCOPES = ['profile:read', 'profile:write', 'videos:read', 'videos:write'] as const;
+
+/**
+ * Personal API keys. Only a hash of the secret is stored; `prefix` is the
+ * public, recognizable part used for lookup and display.
+ */
+const apiKeySchema = new Schema<IApiKey>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [50, 'Name cannot be more than 50 characters'],
+  },
+  prefix: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  scopes: [{
+    type: String,
+    enum: API_KEY_SCOPES,
+  }],
+  lastUsedAt: {
+    type: Date,
+  },
+  lastUsedIp: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  revokedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+apiKeySchema.methods.toJSON = function() {
+  const apiKeyObject = this.toObject();
+  delete apiKeyObject.keyHash;
+  delete apiKeyObject.__v;
+  return apiKeyObject;
+};
+
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,84 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAuditEvent } from '../types';
+
+export const AUDIT_EVENT_TYPES = [
+  'register',
+  'verify_email',
+  'login',
+  'refresh',
+  'password_change',
+  'password_reset',
+  'profile_update',
+  'logout',
+  'account_delete',
+  'account_restore',
+  'data_export',
+  'impersonation_start',
+  'impersonated_request',
+] as const;
+
+/**
+ * Security audit log. `user` is the account the event concerns, `actor` who
+ * performed it (they differ for admin actions). Failed logins for unknown
+ * addresses have no user, only the attempted email.
+ */
+const auditEventSchema = new Schema<IAuditEvent>({
+  type: {
+    type: String,
+    enum: AUDIT_EVENT_TYPES,
+    required: true,
+  },
+  outcome: {
+    type: String,
+    enum: ['success', 'failure'],
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  ip: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+  reason: {
+    type: String,
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+auditEventSchema.index({ user: 1, createdAt: -1 });
+auditEventSchema.index({ type: 1, createdAt: -1 });
+auditEventSchema.index({ ip: 1, createdAt: -1 });
+
+// Retention policy - events are removed once they reach expiresAt
+auditEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+auditEventSchema.methods.toJSON = function() {
+  const eventObject = this.toObject();
+  delete eventObject.__v;
+  return eventObject;
+};
+
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
@@ -0,0 +1,62 @@
+import mongoose, { Schema } from 'mongoose';
+import { IDataExport } from '../types';
+
+/**
+ * GDPR data export jobs. The finished archive is stored with the job and
+ * removed together with it once the download link expires.
+ */
+const dataExportSchema = new Schema<IDataExport>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'ready', 'failed'],
+    default: 'pending',
+  },
+  format: {
+    type: String,
+    enum: ['json', 'zip'],
+    default: 'json',
+  },
+  tokenHash: {
+    type: String,
+    select: false,
+  },
+  archive: {
+    type: Buffer,
+    select: false,
+  },
+  size: {
+    type: Number,
+  },
+  error: {
+    type: String,
+  },
+  completedAt: {
+    type: Date,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+dataExportSchema.methods.toJSON = function() {
+  const exportObject = this.toObject();
+  delete exportObject.tokenHash;
+  delete exportObject.archive;
+  delete exportObject.__v;
+  return exportObject;
+};
+
+const DataExport = mongoose.model<IDataExport>('DataExport', dataExportSchema);
+
+export default DataExport;
@@ -0,0 +1,65 @@
+import mongoose, { Schema } from 'mongoose';
+import { IJob } from '../types';
+import { jobQueueConfig } from '../config/jobQueue';
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'] as const;
+
+/**
+ * Background jobs (see services/jobQueue.service)
+ */
+const jobSchema = new Schema<IJob>({
+  queue: {
+    type: String,
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'pending',
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  runAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lockedBy: {
+    type: String,
+  },
+  lockedUntil: {
+    type: Date,
+  },
+  lastError: {
+    type: String,
+  },
+  completedAt: {
+    type: Date,
+  },
+  deadAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+});
+
+// Claiming: due pending jobs, and running jobs whose lease has expired
+jobSchema.index({ queue: 1, status: 1, runAt: 1 });
+jobSchema.index({ queue: 1, status: 1, lockedUntil: 1 });
+// Only completed jobs have completedAt, so dead jobs are never expired
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: jobQueueConfig.completedRetentionSeconds });
+
+const Job = mongoose.model<IJob>('Job', jobSchema);
+
+export default Job;
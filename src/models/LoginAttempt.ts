@@ -0,0 +1,36 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILoginAttempt } from '../types';
+
+/**
+ * Failed login counters, keyed per account and per IP + account
+ */
+const loginAttemptSchema = new Schema<ILoginAttempt>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  failures: {
+    type: Number,
+    default: 0,
+  },
+  nextAllowedAt: {
+    type: Date,
+  },
+  lockedUntil: {
+    type: Date,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Counters are forgotten once the failure window (or lockout) has passed
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
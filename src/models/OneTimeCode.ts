@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { IOneTimeCode } from '../types';
+
+/**
+ * Short-lived one-time codes (email verification, password reset, ...).
+ * Only an HMAC of the code is stored.
+ */
+const oneTimeCodeSchema = new Schema<IOneTimeCode>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  purpose: {
+    type: String,
+    enum: ['email_verification', 'password_reset', 'magic_link', 'magic_code', 'email_change', 'email_change_undo', 'account_restore'],
+    required: true,
+  },
+  format: {
+    type: String,
+    enum: ['numeric', 'token'],
+    default: 'numeric',
+  },
+  codeHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Only one live code per user and purpose
+oneTimeCodeSchema.index({ user: 1, purpose: 1 }, { unique: true });
+oneTimeCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OneTimeCode = mongoose.model<IOneTimeCode>('OneTimeCode', oneTimeCodeSchema);
+
+export default OneTimeCode;
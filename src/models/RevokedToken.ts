@@ -0,0 +1,23 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRevokedToken } from '../types';
+
+const revokedTokenSchema = new Schema<IRevokedToken>({
+  jti: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// A revoked token only needs to be remembered until it would have expired anyway
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
+
+export default RevokedToken;
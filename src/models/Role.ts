@@ -0,0 +1,30 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRole } from '../types';
+
+/**
+ * Custom roles. Built-in roles are defined in config/permissions and are not stored.
+ */
+const roleSchema = new Schema<IRole>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z][a-z0-9_-]{1,31}$/, 'Role name must be 2-32 lowercase letters, digits, dashes or underscores'],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot be more than 200 characters'],
+  },
+  permissions: [{
+    type: String,
+  }],
+}, {
+  timestamps: true,
+});
+
+const Role = mongoose.model<IRole>('Role', roleSchema);
+
+export default Role;
@@ -0,0 +1,67 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISession } from '../types';
+
+/**
+ * A session represents one refresh token family. Every refresh rotates
+ * `tokenHash`; presenting an already-rotated token revokes the whole family.
+ */
+const sessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  userAgent: {
+    type: String,
+    maxlength: 512,
+  },
+  ip: {
+    type: String,
+  },
+  device: {
+    browser: { type: String, default: 'Unknown' },
+    os: { type: String, default: 'Unknown' },
+    type: {
+      type: String,
+      enum: ['desktop', 'mobile', 'tablet', 'bot', 'unknown'],
+      default: 'unknown',
+    },
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'user_revoked', 'password_change', 'password_reset', 'email_change', 'reuse_detected', 'tokens_revoked', 'account_deleted', 'admin_action'],
+  },
+}, {
+  timestamps: true,
+});
+
+// Let MongoDB purge sessions once the refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+sessionSchema.methods.toJSON = function() {
+  const sessionObject = this.toObject();
+  delete sessionObject.tokenHash;
+  delete sessionObject.__v;
+  return sessionObject;
+};
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
@@ -1,6 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
-import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { passwordHashing } from '../utils/passwordHasher';
 import { IUser } from '../types';
 
 const userSchema = new Schema<IUser>({
@@ -24,7 +24,6 @@ const userSchema = new Schema<IUser>({
   password: {
     type: String,
     required: [true, 'Password is required'],
-    minlength: [6, 'Password must be at least 6 characters'],
     select: false,
   },
   plan: {
@@ -32,28 +31,70 @@ const userSchema = new Schema<IUser>({
     enum: ['free', 'pro', 'premium'],
     default: 'free',
   },
-  isAdmin: {
-    type: Boolean,
-    default: false,
+  roles: {
+    type: [String],
+    default: [],
   },
   isEmailVerified: {
     type: Boolean,
     default: false,
   },
-  emailVerificationCode: {
+  status: {
+    type: String,
+    enum: ['active', 'suspended', 'banned'],
+    default: 'active',
+  },
+  suspendedUntil: {
+    type: Date,
+  },
+  statusReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot be more than 500 characters'],
+  },
+  statusChangedAt: {
+    type: Date,
+  },
+  deletionRequestedAt: {
+    type: Date,
+  },
+  // Set while the account is pending deletion - purged once this passes
+  deletionScheduledFor: {
+    type: Date,
+    index: { sparse: true },
+  },
+  pendingEmail: {
     type: String,
+    lowercase: true,
+    trim: true,
     select: false,
   },
-  emailVerificationExpires: {
+  pendingEmailExpires: {
     type: Date,
     select: false,
   },
-  passwordResetCode: {
+  previousEmail: {
     type: String,
     select: false,
   },
-  passwordResetExpires: {
-    type: Date,
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false,
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false,
+  },
+  twoFactorLastUsedStep: {
+    type: Number,
     select: false,
   },
   connectedPlatforms: [{
@@ -64,6 +105,10 @@ const userSchema = new Schema<IUser>({
     type: Number,
     default: 0,
   },
+  tokenVersion: {
+    type: Number,
+    default: 0,
+  },
   lastLogin: {
     type: Date,
   },
@@ -81,14 +126,28 @@ userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
 
   try {
-    const saltRounds = parseInt(process.env.BCRYPT_SALT_ROUNDS || '10');
-    this.password = await bcrypt.hash(this.password, saltRounds);
+    this.password = await passwordHashing.hash(this.password);
     next();
   } catch (error) {
     next(error as Error);
   }
 });
 
+userSchema.post('init', function() {
+  this.$locals.loadedRoles = [...(this.roles || [])];
+});
+
+// Losing a role must not leave privileged tokens in circulation
+userSchema.pre('save', function(next) {
+  if (!this.isNew && this.isModified('roles')) {
+    const loadedRoles = (this.$locals.loadedRoles as string[]) || [];
+    if (loadedRoles.some(role => !this.roles.includes(role))) {
+      this.tokenVersion = (this.tokenVersion || 0) + 1;
+    }
+  }
+  next();
+});
+
 userSchema.pre('save', function(next) {
   if (this.isNew) {
     this.lastLogin = new Date();
@@ -98,12 +157,17 @@ userSchema.pre('save', function(next) {
 
 userSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
   try {
-    return await bcrypt.compare(candidatePassword, this.password);
+    return await passwordHashing.verify(candidatePassword, this.password);
   } catch (error) {
     throw new Error('Error comparing passwords');
   }
 };
 
+// Hash made with an older algorithm, cost or pepper - needs the password selected
+userSchema.methods.passwordNeedsRehash = function(): boolean {
+  return passwordHashing.needsRehash(this.password);
+};
+
 userSchema.methods.generatePasswordResetToken = function(): string {
   // Generate token
   const resetToken = crypto.randomBytes(32).toString('hex');
@@ -147,6 +211,10 @@ userSchema.statics.findByEmailVerificationToken = function(token: string) {
   });
 };
 
+userSchema.virtual('isAdmin').get(function() {
+  return (this.roles || []).includes('admin');
+});
+
 userSchema.virtual('profile').get(function() {
   return {
     id: this._id,
@@ -154,6 +222,7 @@ userSchema.virtual('profile').get(function() {
     email: this.email,
     plan: this.plan,
     isAdmin: this.isAdmin,
+    roles: this.roles,
     connectedPlatforms: this.connectedPlatforms,
     videosGenerated: this.videosGenerated,
     lastLogin: this.lastLogin,
@@ -167,6 +236,9 @@ userSchema.methods.toJSON = function() {
   delete userObject.passwordResetToken;
   delete userObject.passwordResetExpires;
   delete userObject.emailVerificationToken;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorPendingSecret;
+  delete userObject.twoFactorRecoveryCodes;
   delete userObject.__v;
   return userObject;
 };
@@ -0,0 +1,132 @@
+import mongoose, { Schema } from 'mongoose';
+import { IVideo } from '../types';
+
+export const VIDEO_STATUSES = ['queued', 'processing', 'completed', 'failed', 'cancelled'] as const;
+export const VIDEO_RESOLUTIONS = ['480p', '720p', '1080p', '4k'] as const;
+export const VIDEO_ASPECT_RATIOS = ['16:9', '9:16', '1:1', '4:5'] as const;
+
+/**
+ * Video generation jobs and, once completed, the generated video's metadata
+ */
+const videoOutputSchema = new Schema({
+  url: {
+    type: String,
+    required: true,
+  },
+  thumbnailUrl: {
+    type: String,
+  },
+  format: {
+    type: String,
+    required: true,
+  },
+  width: {
+    type: Number,
+    required: true,
+  },
+  height: {
+    type: Number,
+    required: true,
+  },
+  durationSeconds: {
+    type: Number,
+    required: true,
+  },
+  sizeBytes: {
+    type: Number,
+  },
+}, {
+  _id: false,
+});
+
+const videoSchema = new Schema<IVideo>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+  },
+  prompt: {
+    type: String,
+    required: [true, 'Prompt is required'],
+    trim: true,
+    maxlength: [2000, 'Prompt cannot be more than 2000 characters'],
+  },
+  template: {
+    type: String,
+    trim: true,
+    maxlength: [64, 'Template cannot be more than 64 characters'],
+  },
+  resolution: {
+    type: String,
+    enum: VIDEO_RESOLUTIONS,
+    default: '1080p',
+  },
+  aspectRatio: {
+    type: String,
+    enum: VIDEO_ASPECT_RATIOS,
+    default: '16:9',
+  },
+  durationSeconds: {
+    type: Number,
+    min: [1, 'Duration must be at least 1 second'],
+    max: [300, 'Duration cannot be more than 300 seconds'],
+    default: 15,
+  },
+  status: {
+    type: String,
+    enum: VIDEO_STATUSES,
+    default: 'queued',
+  },
+  progress: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0,
+  },
+  error: {
+    type: String,
+  },
+  output: {
+    type: videoOutputSchema,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  // Which generation backend is running the job, and its id for the job there
+  provider: {
+    type: String,
+  },
+  providerJobId: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+  cancelledAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+videoSchema.index({ user: 1, createdAt: -1 });
+videoSchema.index({ workspace: 1, createdAt: -1 });
+videoSchema.index({ status: 1, createdAt: 1 });
+
+videoSchema.methods.toJSON = function() {
+  const videoObject = this.toObject();
+  delete videoObject.__v;
+  return videoObject;
+};
+
+const Video = mongoose.model<IVideo>('Video', videoSchema);
+
+export default Video;
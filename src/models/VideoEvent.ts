@@ -0,0 +1,22 @@
+import mongoose, { Schema } from 'mongoose';
+import { IVideoEventRecord } from '../types';
+
+/**
+ * Video events relayed between processes by MongoVideoEventBus.
+ * The document _id is the event id, so they sort in publish order.
+ */
+const videoEventSchema = new Schema<IVideoEventRecord>({
+  event: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Only needed long enough for every process to pick them up
+videoEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 3600 });
+
+const VideoEventRecord = mongoose.model<IVideoEventRecord>('VideoEvent', videoEventSchema);
+
+export default VideoEventRecord;
@@ -0,0 +1,52 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWorkspace } from '../types';
+
+/**
+ * Shared workspaces (e.g. an agency and its clients). Members are embedded -
+ * workspaces are small and membership is read on every workspace request.
+ */
+const workspaceMemberSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  role: {
+    type: String,
+    enum: ['owner', 'admin', 'editor', 'viewer'],
+    required: true,
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+const workspaceSchema = new Schema<IWorkspace>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [80, 'Name cannot be more than 80 characters'],
+  },
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  members: {
+    type: [workspaceMemberSchema],
+    default: [],
+  },
+}, {
+  timestamps: true,
+});
+
+workspaceSchema.index({ 'members.user': 1 });
+
+const Workspace = mongoose.model<IWorkspace>('Workspace', workspaceSchema);
+
+export default Workspace;
@@ -0,0 +1,63 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWorkspaceInvitation } from '../types';
+
+/**
+ * Email invitations to join a workspace. One emailed token both accepts and declines.
+ */
+const workspaceInvitationSchema = new Schema<IWorkspaceInvitation>({
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+    index: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    index: true,
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'editor', 'viewer'],
+    required: true,
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'revoked'],
+    default: 'pending',
+  },
+  respondedAt: {
+    type: Date,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+workspaceInvitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+workspaceInvitationSchema.methods.toJSON = function() {
+  const invitationObject = this.toObject();
+  delete invitationObject.tokenHash;
+  delete invitationObject.__v;
+  return invitationObject;
+};
+
+const WorkspaceInvitation = mongoose.model<IWorkspaceInvitation>('WorkspaceInvitation', workspaceInvitationSchema);
+
+export default WorkspaceInvitation;
@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import {
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  assignRoles,
+  getUsers,
+  getUser,
+  changeUserPlan,
+  setUserAdmin,
+  setUserStatus,
+  clearUserStatus,
+  forceReverification,
+  triggerPasswordReset,
+  deleteUser,
+  impersonateUser,
+  getAuditEvents,
+} from '../controllers/admin.controller';
+import { protect, disallowApiKey, disallowImpersonation, requirePermission } from '../middleware/auth';
+import {
+  validateParams,
+  validateQuery,
+  requireContentType,
+  sanitizeRequestBody,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * Admin Routes (interactive login with role permissions required)
+ */
+router.use(protect, disallowApiKey);
+
+// List roles and permissions
+router.get('/roles', requirePermission('roles:manage'), getRoles);
+
+// Create a custom role
+router.post(
+  '/roles',
+  requirePermission('roles:manage'),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['name', 'description', 'permissions']),
+  createRole
+);
+
+// Update a custom role
+router.put(
+  '/roles/:name',
+  requirePermission('roles:manage'),
+  validateParams(['name']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['description', 'permissions']),
+  updateRole
+);
+
+// Delete a custom role
+router.delete('/roles/:name', requirePermission('roles:manage'), validateParams(['name']), deleteRole);
+
+// Search users
+router.get(
+  '/users',
+  requirePermission('users:read'),
+  validateQuery(['page', 'limit', 'email', 'plan', 'verified', 'status', 'createdFrom', 'createdTo']),
+  getUsers
+);
+
+// View a user's full profile
+router.get('/users/:id', requirePermission('users:read'), validateParams(['id']), getUser);
+
+// Change a user's plan
+router.put(
+  '/users/:id/plan',
+  requirePermission('billing:write'),
+  validateParams(['id']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['plan']),
+  changeUserPlan
+);
+
+// Grant or remove admin rights
+router.put(
+  '/users/:id/admin',
+  requirePermission('roles:manage'),
+  validateParams(['id']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['isAdmin']),
+  setUserAdmin
+);
+
+// Suspend, ban or reinstate a user
+router.put(
+  '/users/:id/status',
+  requirePermission('users:suspend'),
+  validateParams(['id']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['status', 'reason', 'suspendedUntil']),
+  setUserStatus
+);
+
+// Lift a suspension or ban
+router.delete('/users/:id/status', requirePermission('users:suspend'), validateParams(['id']), clearUserStatus);
+
+// Force email re-verification
+router.post('/users/:id/reverify', requirePermission('users:write'), validateParams(['id']), forceReverification);
+
+// Send a password reset code
+router.post('/users/:id/password-reset', requirePermission('users:write'), validateParams(['id']), triggerPasswordReset);
+
+// Permanently delete a user
+router.delete('/users/:id', requirePermission('users:delete'), validateParams(['id']), deleteUser);
+
+// Replace a user's roles
+router.put(
+  '/users/:id/roles',
+  requirePermission('roles:manage'),
+  validateParams(['id']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['roles']),
+  assignRoles
+);
+
+// Act as a user to reproduce what they see (not from an impersonation token)
+router.post(
+  '/impersonate/:userId',
+  requirePermission('users:impersonate'),
+  disallowImpersonation,
+  validateParams(['userId']),
+  impersonateUser
+);
+
+// Search the security audit log
+router.get(
+  '/audit-events',
+  requirePermission('audit:read'),
+  validateQuery(['userId', 'actorId', 'email', 'type', 'outcome', 'ip', 'from', 'to', 'page', 'limit']),
+  getAuditEvents
+);
+
+export default router;
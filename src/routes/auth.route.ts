@@ -4,22 +4,49 @@ import {
   verifyEmail,
   resendVerification,
   login,
+  loginMfa,
+  requestMagicLink,
+  verifyMagicLink,
   getMe,
   refreshToken,
+  getCsrfToken,
   forgotPassword,
   verifyResetCode,
   resetPassword,
   updateProfile,
   changePassword,
+  changeEmail,
+  confirmEmailChange,
+  undoEmailChange,
   logout,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getActivity,
+  requestDataExport,
+  getDataExports,
+  downloadDataExport,
+  createApiKey,
+  getApiKeys,
+  updateApiKey,
+  revokeApiKey,
   deleteAccount,
+  restoreAccount,
 } from '../controllers/auth.controller';
-import { protect } from '../middleware/auth';
+import { protect, requireScope, disallowApiKey, disallowImpersonation } from '../middleware/auth';
 import {
+  validateParams,
+  validateQuery,
   validateRegister,
   validateLoginData,
   validateForgotPasswordData,
   validateResetPasswordData,
+  validateMagicLinkData,
+  validateChangeEmailData,
   requireContentType,
   sanitizeRequestBody,
 } from '../middleware/validation';
@@ -62,6 +89,30 @@ router.post(
   login
 );
 
+// Complete login with two-factor code
+router.post(
+  '/login/mfa',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['mfaToken', 'code', 'recoveryCode']),
+  loginMfa
+);
+
+// Request passwordless sign-in link / code
+router.post(
+  '/magic-link',
+  requireContentType('application/json'),
+  validateMagicLinkData,
+  requestMagicLink
+);
+
+// Sign in with magic link token or code
+router.post(
+  '/magic-link/verify',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['token', 'email', 'code']),
+  verifyMagicLink
+);
+
 // Refresh access token
 router.post(
   '/refresh',
@@ -70,6 +121,9 @@ router.post(
   refreshToken
 );
 
+// CSRF token for cookie sessions
+router.get('/csrf', getCsrfToken);
+
 // Forgot password
 router.post(
   '/forgot-password',
@@ -94,38 +148,167 @@ router.post(
   resetPassword
 );
 
+// Undo an email change (link sent to the old address)
+router.post(
+  '/change-email/undo',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['token']),
+  undoEmailChange
+);
+
+// Restore an account pending deletion (link from the confirmation email)
+router.post(
+  '/account/restore',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['token']),
+  restoreAccount
+);
+
+// Download a data export (token from the notification email)
+router.get('/export/download', validateQuery(['token']), downloadDataExport);
+
 /**
  * Protected Routes (Authentication required)
  */
 
 // Get current user profile
-router.get('/me', protect, getMe);
+router.get('/me', protect, requireScope('profile:read'), getMe);
 
 // Update user profile
 router.put(
   '/profile',
   protect,
+  requireScope('profile:write'),
   requireContentType('application/json'),
   sanitizeRequestBody(['name']),
   updateProfile
 );
 
+// Request email change
+router.post(
+  '/change-email',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  validateChangeEmailData,
+  changeEmail
+);
+
+// Confirm email change
+router.post(
+  '/change-email/confirm',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  sanitizeRequestBody(['code']),
+  confirmEmailChange
+);
+
 // Change password
 router.put(
   '/change-password',
   protect,
+  disallowApiKey,
+  disallowImpersonation,
   requireContentType('application/json'),
   sanitizeRequestBody(['currentPassword', 'newPassword']),
   changePassword
 );
 
 // Logout user
-router.post('/logout', protect, logout);
+router.post('/logout', protect, disallowApiKey, logout);
+
+// Start two-factor enrollment
+router.post('/2fa/setup', protect, disallowApiKey, disallowImpersonation, setupTwoFactor);
+
+// Confirm two-factor enrollment
+router.post(
+  '/2fa/confirm',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  sanitizeRequestBody(['code']),
+  confirmTwoFactor
+);
+
+// Disable two-factor authentication
+router.post(
+  '/2fa/disable',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  sanitizeRequestBody(['password']),
+  disableTwoFactor
+);
+
+// Regenerate recovery codes
+router.post(
+  '/2fa/recovery-codes',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  sanitizeRequestBody(['password']),
+  regenerateRecoveryCodes
+);
+
+// List active sessions
+router.get('/sessions', protect, disallowApiKey, getSessions);
+
+// Recent security activity on the account
+router.get('/activity', protect, disallowApiKey, validateQuery(['page', 'limit']), getActivity);
+
+// Request a GDPR data export
+router.post('/export', protect, disallowApiKey, disallowImpersonation, sanitizeRequestBody(['format']), requestDataExport);
+
+// List recent data exports
+router.get('/export', protect, disallowApiKey, getDataExports);
+
+// Sign out of all other sessions
+router.delete('/sessions', protect, disallowApiKey, disallowImpersonation, revokeOtherSessions);
+
+// Revoke a specific session
+router.delete('/sessions/:id', protect, disallowApiKey, disallowImpersonation, validateParams(['id']), revokeSession);
+
+// Create a personal API key
+router.post(
+  '/api-keys',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  requireContentType('application/json'),
+  sanitizeRequestBody(['name', 'scopes', 'expiresInDays']),
+  createApiKey
+);
+
+// List personal API keys
+router.get('/api-keys', protect, disallowApiKey, getApiKeys);
+
+// Rename a personal API key or change its scopes
+router.put(
+  '/api-keys/:id',
+  protect,
+  disallowApiKey,
+  disallowImpersonation,
+  validateParams(['id']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['name', 'scopes']),
+  updateApiKey
+);
+
+// Revoke a personal API key
+router.delete('/api-keys/:id', protect, disallowApiKey, disallowImpersonation, validateParams(['id']), revokeApiKey);
 
 // Delete user account
 router.delete(
   '/account',
   protect,
+  disallowApiKey,
+  disallowImpersonation,
   requireContentType('application/json'),
   sanitizeRequestBody(['password']),
   deleteAccount
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import {
+  videoOwner,
+  createVideo,
+  getVideos,
+  getVideo,
+  cancelVideo,
+  retryVideo,
+  deleteVideo,
+  streamVideoEvents,
+  streamMyVideoEvents,
+} from '../controllers/video.controller';
+import { protect, requireScope, checkResourceOwnership } from '../middleware/auth';
+import {
+  validateParams,
+  validateQuery,
+  requireContentType,
+  sanitizeRequestBody,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * Video Routes (JWT or API key with the videos scopes)
+ */
+router.use(protect);
+
+// Queue a video generation job
+router.post(
+  '/',
+  requireScope('videos:write'),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['prompt', 'template', 'resolution', 'aspectRatio', 'durationSeconds']),
+  createVideo
+);
+
+// List videos
+router.get('/', requireScope('videos:read'), validateQuery(['page', 'limit', 'status']), getVideos);
+
+// Real-time status and progress (Server-Sent Events, exempt from the global rate limiter)
+router.get('/events', requireScope('videos:read'), streamMyVideoEvents);
+router.get(
+  '/:id/events',
+  requireScope('videos:read'),
+  validateParams(['id']),
+  checkResourceOwnership(videoOwner, 'videos:read:any'),
+  streamVideoEvents
+);
+
+// Get a video
+router.get(
+  '/:id',
+  requireScope('videos:read'),
+  validateParams(['id']),
+  checkResourceOwnership(videoOwner, 'videos:read:any'),
+  getVideo
+);
+
+// Cancel a job
+router.post(
+  '/:id/cancel',
+  requireScope('videos:write'),
+  validateParams(['id']),
+  checkResourceOwnership(videoOwner, 'videos:write:any'),
+  cancelVideo
+);
+
+// Retry a failed or cancelled job
+router.post(
+  '/:id/retry',
+  requireScope('videos:write'),
+  validateParams(['id']),
+  checkResourceOwnership(videoOwner, 'videos:write:any'),
+  retryVideo
+);
+
+// Delete a video
+router.delete(
+  '/:id',
+  requireScope('videos:write'),
+  validateParams(['id']),
+  checkResourceOwnership(videoOwner, 'videos:write:any'),
+  deleteVideo
+);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getJwks } from '../controllers/wellKnown.controller';
+
+const router = Router();
+
+// JSON Web Key Set for verifying access tokens
+router.get('/jwks.json', getJwks);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import {
+  createWorkspace,
+  getWorkspaces,
+  getWorkspace,
+  updateWorkspace,
+  deleteWorkspace,
+  getMembers,
+  changeMemberRole,
+  removeMember,
+  inviteMember,
+  getInvitations,
+  revokeInvitation,
+  acceptInvitation,
+  declineInvitation,
+} from '../controllers/workspace.controller';
+import { protect, disallowApiKey, disallowImpersonation } from '../middleware/auth';
+import {
+  validateParams,
+  requireContentType,
+  sanitizeRequestBody,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * Public Routes
+ */
+
+// Decline an invitation (the emailed token is the credential)
+router.post(
+  '/invitations/decline',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['token']),
+  declineInvitation
+);
+
+/**
+ * Workspace Routes (interactive login required)
+ */
+router.use(protect, disallowApiKey);
+
+// Accept an invitation
+router.post(
+  '/invitations/accept',
+  requireContentType('application/json'),
+  sanitizeRequestBody(['token']),
+  acceptInvitation
+);
+
+// Create and list workspaces
+router.post('/', requireContentType('application/json'), sanitizeRequestBody(['name']), createWorkspace);
+router.get('/', getWorkspaces);
+
+// View, rename and delete a workspace
+router.get('/:workspaceId', validateParams(['workspaceId']), getWorkspace);
+router.put(
+  '/:workspaceId',
+  validateParams(['workspaceId']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['name']),
+  updateWorkspace
+);
+router.delete('/:workspaceId', disallowImpersonation, validateParams(['workspaceId']), deleteWorkspace);
+
+// Members
+router.get('/:workspaceId/members', validateParams(['workspaceId']), getMembers);
+router.put(
+  '/:workspaceId/members/:userId',
+  validateParams(['workspaceId', 'userId']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['role']),
+  changeMemberRole
+);
+router.delete('/:workspaceId/members/:userId', validateParams(['workspaceId', 'userId']), removeMember);
+
+// Invitations
+router.post(
+  '/:workspaceId/invitations',
+  validateParams(['workspaceId']),
+  requireContentType('application/json'),
+  sanitizeRequestBody(['email', 'role']),
+  inviteMember
+);
+router.get('/:workspaceId/invitations', validateParams(['workspaceId']), getInvitations);
+router.delete(
+  '/:workspaceId/invitations/:invitationId',
+  validateParams(['workspaceId', 'invitationId']),
+  revokeInvitation
+);
+
+export default router;
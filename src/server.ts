@@ -1,14 +1,27 @@
+// Load environment variables before any module reads its configuration
+import 'dotenv/config';
 import express, { Application } from 'express';
+import mongoose from 'mongoose';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import connectDatabase from './config/database';
 import authRoutes from './routes/auth.route';
+import wellKnownRoutes from './routes/wellKnown.route';
+import adminRoutes from './routes/admin.route';
+import workspaceRoutes from './routes/workspace.route';
+import videoRoutes from './routes/video.route';
 import { globalErrorHandler, notFound } from './middleware/errorHandler';
-
-// Load environment variables
-dotenv.config();
+import { csrfProtection } from './middleware/auth';
+import { getKeyRing } from './utils/keyring';
+import { closeEventStreams } from './utils/sse';
+import { roleService } from './services/role.service';
+import { dataExportService } from './services/dataExport.service';
+import { accountDeletionService } from './services/accountDeletion.service';
+import { videoProviderRegistry } from './services/videoProvider.service';
+import { videoGenerationConfig } from './config/videoGeneration';
+import { jobQueueConfig } from './config/jobQueue';
+import { startWorkers, stopWorkers } from './workers';
 
 // Create Express application
 const app: Application = express();
@@ -45,7 +58,8 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token', 'x-api-key', 'x-workspace-id', 'x-auth-mode', 'last-event-id'],
+  exposedHeaders: ['Retry-After'],
   optionsSuccessStatus: 200,
 };
 
@@ -61,6 +75,8 @@ const limiter = rateLimit({
   },
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  // Event streams are long-lived and replace polling, so they are capped per user instead
+  skip: (req) => req.method === 'GET' && /^\/api\/videos\/(?:[^/]+\/)?events\/?$/.test(req.path),
 });
 
 app.use(limiter);
@@ -100,7 +116,19 @@ app.get('/health', (req, res) => {
 /**
  * API Routes
  */
+// Cookie-authenticated requests must echo the CSRF token
+app.use('/api', csrfProtection);
+
 app.use('/api/auth', authRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/videos', videoRoutes);
+app.use('/.well-known', wellKnownRoutes);
+
+// Placeholder files written by the mock video provider
+if (videoProviderRegistry.getDefaultId() === 'mock') {
+  app.use('/media/mock', express.static(videoGenerationConfig.mock.outputDir));
+}
 
 /**
  * Welcome Route
@@ -114,6 +142,8 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       auth: '/api/auth',
+      admin: '/api/admin',
+      jwks: '/.well-known/jwks.json',
     },
   });
 });
@@ -133,8 +163,31 @@ app.use(globalErrorHandler);
  */
 const startServer = async () => {
   try {
+    // Fail fast on JWT key misconfiguration
+    getKeyRing();
+
+    // Fail fast on an unknown VIDEO_PROVIDER
+    videoProviderRegistry.get();
+
     // Connect to database
     await connectDatabase();
+
+    // Move users still on the legacy isAdmin flag to the admin role
+    const migratedAdmins = await roleService.migrateLegacyAdmins();
+    if (migratedAdmins > 0) {
+      console.log(`🔑 Migrated ${migratedAdmins} legacy admin account(s) to the admin role`);
+    }
+
+    // Data exports are built in-process - pick up any queued before this start
+    await dataExportService.resumePendingExports();
+
+    // Hard-delete accounts whose deletion grace period has ended
+    accountDeletionService.startPurgeSchedule();
+
+    // Background jobs run here unless a separate worker process handles them
+    if (jobQueueConfig.runWorkersInProcess) {
+      startWorkers();
+    }
     
     // Start listening
     const server = app.listen(PORT, () => {
@@ -142,25 +195,32 @@ const startServer = async () => {
     });
 
     // Graceful shutdown handlers
-    const gracefulShutdown = (signal: string) => {
+    const gracefulShutdown = async (signal: string) => {
       console.log(`\n⚠️  Received ${signal}. Starting graceful shutdown...`);
-      
-      server.close(() => {
+      accountDeletionService.stopPurgeSchedule();
+
+      // Stop taking requests and let running jobs finish at the same time.
+      // Event streams never end on their own, so they are closed first.
+      closeEventStreams();
+      const httpClosed = new Promise<void>(resolve => server.close(() => {
         console.log('🔒 HTTP server closed.');
-        
-        // Close database connection
-        require('mongoose').connection.close(() => {
-          console.log('🔒 Database connection closed.');
-          console.log('✅ Graceful shutdown completed.');
-          process.exit(0);
-        });
-      });
+        resolve();
+      }));
+      const workersDrained = stopWorkers().then(() => console.log('🔒 Job workers drained.'));
 
       // Force close after 10 seconds
       setTimeout(() => {
         console.error('❌ Could not close connections in time, forcefully shutting down');
         process.exit(1);
       }, 10000);
+
+      await Promise.all([httpClosed, workersDrained]);
+
+      // Close database connection
+      await mongoose.connection.close();
+      console.log('🔒 Database connection closed.');
+      console.log('✅ Graceful shutdown completed.');
+      process.exit(0);
     };
 
     // Listen for termination signals
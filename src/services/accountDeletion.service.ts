@@ -0,0 +1,132 @@
+import User from '../models/User';
+import Session from '../models/Session';
+import ApiKey from '../models/ApiKey';
+import OneTimeCode from '../models/OneTimeCode';
+import LoginAttempt from '../models/LoginAttempt';
+import AuditEvent from '../models/AuditEvent';
+import { dataExportService } from './dataExport.service';
+import { workspaceService } from './workspace.service';
+import { videoService } from './video.service';
+import { AppError } from '../middleware/errorHandler';
+import { accountDeletionConfig } from '../config/security';
+import { IUser } from '../types';
+
+const PURGE_BATCH_SIZE = 100;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class AccountDeletionService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Mark an account pending deletion. Returns the date it will be purged.
+   */
+  async scheduleDeletion(user: IUser): Promise<Date> {
+    const purgeAt = new Date(Date.now() + accountDeletionConfig.graceDays * 24 * 60 * 60 * 1000);
+
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = purgeAt;
+    await user.save();
+
+    return purgeAt;
+  }
+
+  /**
+   * Whether the account is inside its deletion grace period
+   */
+  isPendingDeletion(user: IUser): boolean {
+    return !!user.deletionScheduledFor;
+  }
+
+  /**
+   * Cancel a pending deletion. Fails once the grace period is over, even if the purge job has not run yet.
+   */
+  async restore(user: IUser): Promise<void> {
+    if (user.deletionScheduledFor && user.deletionScheduledFor <= new Date()) {
+      throw new AppError('This account has been deleted', 410, 'ACCOUNT_DELETED');
+    }
+
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+
+    await OneTimeCode.deleteMany({ user: user._id, purpose: 'account_restore' });
+  }
+
+  /**
+   * Permanently delete a user and everything they own
+   */
+  async purgeUser(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) return;
+
+    const email = escapeRegex(user.email.toLowerCase());
+    await Promise.all([
+      Session.deleteMany({ user: user._id }),
+      ApiKey.deleteMany({ user: user._id }),
+      OneTimeCode.deleteMany({ user: user._id }),
+      AuditEvent.deleteMany({ user: user._id }),
+      LoginAttempt.deleteMany({ key: { $regex: `^(account|ip-account:.*|magic-link):${email}$` } }),
+      dataExportService.deleteExports(userId),
+      workspaceService.removeUserFromWorkspaces(userId),
+      videoService.deleteVideosForUser(userId),
+    ]);
+    await User.deleteOne({ _id: user._id });
+  }
+
+  /**
+   * Purge accounts whose grace period has ended
+   */
+  async purgeExpiredAccounts(): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const expired = await User.find({ deletionScheduledFor: { $lte: new Date() } })
+        .select('_id')
+        .limit(PURGE_BATCH_SIZE);
+
+      for (const user of expired) {
+        await this.purgeUser(user._id.toString());
+      }
+      purged += expired.length;
+
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+
+    return purged;
+  }
+
+  /**
+   * Run the purge job now and then on an interval
+   */
+  startPurgeSchedule(intervalMs: number = accountDeletionConfig.purgeIntervalMs): void {
+    if (this.purgeTimer) return;
+
+    const run = () => {
+      this.purgeExpiredAccounts()
+        .then(purged => {
+          if (purged > 0) {
+            console.log(`🗑️  Purged ${purged} account(s) past their deletion grace period`);
+          }
+        })
+        .catch(error => console.error('❌ Account purge failed:', error.message));
+    };
+
+    run();
+    this.purgeTimer = setInterval(run, intervalMs);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Stop the purge job (graceful shutdown)
+   */
+  stopPurgeSchedule(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const accountDeletionService = new AccountDeletionService();
@@ -0,0 +1,63 @@
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { AccountRestriction, IUser } from '../types';
+
+export class AccountStatusService {
+  /**
+   * Work out whether an account is currently restricted. Expired suspensions
+   * are lifted here, so no scheduled job is needed.
+   */
+  async getRestriction(user: IUser): Promise<AccountRestriction | null> {
+    if (!user.status || user.status === 'active') {
+      return null;
+    }
+
+    if (user.status === 'banned') {
+      return {
+        status: 'banned',
+        code: 'ACCOUNT_BANNED',
+        message: 'This account has been banned.',
+        ...(user.statusReason && { reason: user.statusReason }),
+      };
+    }
+
+    if (!user.suspendedUntil || user.suspendedUntil <= new Date()) {
+      await this.liftSuspension(user);
+      return null;
+    }
+
+    return {
+      status: 'suspended',
+      code: 'ACCOUNT_SUSPENDED',
+      message: `This account is suspended until ${user.suspendedUntil.toISOString()}.`,
+      suspendedUntil: user.suspendedUntil,
+      ...(user.statusReason && { reason: user.statusReason }),
+    };
+  }
+
+  /**
+   * Throw if the account is suspended or banned
+   */
+  async assertActive(user: IUser): Promise<void> {
+    const restriction = await this.getRestriction(user);
+    if (restriction) {
+      const reason = restriction.reason ? ` Reason: ${restriction.reason}` : '';
+      throw new AppError(`${restriction.message}${reason}`, 403, restriction.code);
+    }
+  }
+
+  private async liftSuspension(user: IUser): Promise<void> {
+    // Only lift the suspension we looked at, in case an admin changed it meanwhile
+    await User.updateOne(
+      { _id: user._id, status: 'suspended', suspendedUntil: user.suspendedUntil },
+      { status: 'active', statusChangedAt: new Date(), $unset: { suspendedUntil: '', statusReason: '' } }
+    );
+
+    user.status = 'active';
+    user.suspendedUntil = undefined;
+    user.statusReason = undefined;
+  }
+}
+
+// Export singleton instance
+export const accountStatusService = new AccountStatusService();
@@ -0,0 +1,309 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Session from '../models/Session';
+import ApiKey from '../models/ApiKey';
+import { emailService } from '../utils/email.service';
+import { sessionService } from './session.service';
+import { revocationService } from './revocation.service';
+import { oneTimeCodeService } from './oneTimeCode.service';
+import { roleService } from './role.service';
+import { accountDeletionService } from './accountDeletion.service';
+import { accountStatusService } from './accountStatus.service';
+import { auditService } from './audit.service';
+import { generateAccessToken, createJWTPayload } from '../utils/jwt';
+import { impersonationConfig } from '../config/security';
+import { AppError } from '../middleware/errorHandler';
+import { AccountStatus, IUser, RequestContext } from '../types';
+
+const PLANS = ['free', 'pro', 'premium'] as const;
+const ACCOUNT_STATUSES = ['active', 'suspended', 'banned'] as const;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface UserSearchQuery {
+  page?: number;
+  limit?: number;
+  email?: string;
+  plan?: string;
+  verified?: boolean;
+  status?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toSummary = (user: IUser) => ({
+  id: user._id.toString(),
+  name: user.name,
+  email: user.email,
+  plan: user.plan,
+  roles: user.roles || [],
+  isAdmin: user.isAdmin,
+  isEmailVerified: user.isEmailVerified,
+  status: user.status || 'active',
+  suspendedUntil: user.suspendedUntil?.toISOString(),
+  statusReason: user.statusReason,
+  deletionScheduledFor: user.deletionScheduledFor?.toISOString(),
+  twoFactorEnabled: user.twoFactorEnabled || false,
+  videosGenerated: user.videosGenerated || 0,
+  lastLogin: user.lastLogin?.toISOString(),
+  createdAt: user.createdAt.toISOString(),
+});
+
+export class AdminService {
+  /**
+   * Search users with filters, newest first
+   */
+  async listUsers(query: UserSearchQuery) {
+    const page = Math.max(1, Math.floor(query.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+
+    const filter: Record<string, any> = {};
+    if (query.email) {
+      filter.email = { $regex: escapeRegex(query.email.toLowerCase()) };
+    }
+    if (query.plan) {
+      this.assertPlan(query.plan);
+      filter.plan = query.plan;
+    }
+    if (query.verified !== undefined) {
+      filter.isEmailVerified = query.verified;
+    }
+    if (query.status) {
+      if (!(ACCOUNT_STATUSES as readonly string[]).includes(query.status)) {
+        throw new AppError(`Status must be one of: ${ACCOUNT_STATUSES.join(', ')}`, 400);
+      }
+      filter.status = query.status === 'active' ? { $in: ['active', null] } : query.status;
+    }
+    if (query.createdFrom || query.createdTo) {
+      filter.createdAt = {
+        ...(query.createdFrom && { $gte: query.createdFrom }),
+        ...(query.createdTo && { $lte: query.createdTo }),
+      };
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * limit).limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    return {
+      users: users.map(toSummary),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Full profile of a user, including account security state
+   */
+  async getUser(userId: string) {
+    const user = await this.findUser(userId, '+pendingEmail +pendingEmailExpires');
+
+    const [activeSessions, activeApiKeys, permissions] = await Promise.all([
+      Session.countDocuments({ user: user._id, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } }),
+      ApiKey.countDocuments({ user: user._id, revokedAt: { $exists: false } }),
+      roleService.resolvePermissions(user.roles),
+    ]);
+
+    return {
+      ...toSummary(user),
+      permissions,
+      connectedPlatforms: user.connectedPlatforms || [],
+      pendingEmail: user.pendingEmail,
+      pendingEmailExpires: user.pendingEmailExpires?.toISOString(),
+      activeSessions,
+      activeApiKeys,
+      updatedAt: user.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Change a user's plan. Outstanding tokens become stale and are refreshed with the new plan.
+   */
+  async changePlan(userId: string, plan: string) {
+    this.assertPlan(plan);
+
+    const user = await this.findUser(userId);
+    user.plan = plan as IUser['plan'];
+    await user.save();
+
+    return toSummary(user);
+  }
+
+  /**
+   * Grant or remove the built-in admin role
+   */
+  async setAdmin(actorId: string, userId: string, isAdmin: boolean) {
+    if (typeof isAdmin !== 'boolean') {
+      throw new AppError('isAdmin must be true or false', 400);
+    }
+
+    if (!isAdmin && actorId === userId) {
+      throw new AppError('You cannot remove your own admin role', 400);
+    }
+
+    const user = await this.findUser(userId);
+    const roles = (user.roles || []).filter(role => role !== 'admin');
+    if (isAdmin) {
+      roles.push('admin');
+    }
+
+    // Removing the role bumps tokenVersion in the User pre-save hook
+    user.roles = roles;
+    await user.save();
+
+    return toSummary(user);
+  }
+
+  /**
+   * Suspend (until a date) or ban an account. The user is signed out everywhere.
+   */
+  async setAccountStatus(
+    actorId: string,
+    userId: string,
+    update: { status: AccountStatus; reason?: string; suspendedUntil?: Date }
+  ) {
+    if (!(ACCOUNT_STATUSES as readonly string[]).includes(update.status)) {
+      throw new AppError(`Status must be one of: ${ACCOUNT_STATUSES.join(', ')}`, 400);
+    }
+
+    if (update.status === 'active') {
+      return this.clearAccountStatus(userId);
+    }
+
+    if (actorId === userId) {
+      throw new AppError('You cannot suspend or ban your own account', 400);
+    }
+
+    if (update.status === 'suspended' && (!update.suspendedUntil || update.suspendedUntil <= new Date())) {
+      throw new AppError('A suspension needs a suspendedUntil date in the future', 400);
+    }
+
+    const user = await this.findUser(userId);
+    user.status = update.status;
+    user.suspendedUntil = update.status === 'suspended' ? update.suspendedUntil : undefined;
+    user.statusReason = update.reason;
+    user.statusChangedAt = new Date();
+    await user.save();
+
+    await revocationService.revokeAllForUser(userId);
+    await sessionService.revokeAllSessions(userId, 'admin_action');
+
+    return toSummary(user);
+  }
+
+  /**
+   * Lift a suspension or ban
+   */
+  async clearAccountStatus(userId: string) {
+    const user = await this.findUser(userId);
+    user.status = 'active';
+    user.suspendedUntil = undefined;
+    user.statusReason = undefined;
+    user.statusChangedAt = new Date();
+    await user.save();
+
+    return toSummary(user);
+  }
+
+  /**
+   * Mark the email unverified and send a fresh verification code. The user is signed out everywhere.
+   */
+  async forceReverification(userId: string): Promise<{ message: string }> {
+    const user = await this.findUser(userId);
+
+    user.isEmailVerified = false;
+    await user.save();
+
+    await revocationService.revokeAllForUser(userId);
+    await sessionService.revokeAllSessions(userId, 'admin_action');
+
+    const verificationCode = await oneTimeCodeService.issue(userId, 'email_verification');
+    await emailService.sendVerificationCode(user.email, user.name, verificationCode);
+
+    return { message: 'User must verify their email again. A verification code has been sent.' };
+  }
+
+  /**
+   * Send the user a password reset code
+   */
+  async triggerPasswordReset(userId: string): Promise<{ message: string }> {
+    const user = await this.findUser(userId);
+
+    const resetCode = await oneTimeCodeService.issue(userId, 'password_reset');
+    await emailService.sendPasswordResetCode(user.email, user.name, resetCode);
+
+    return { message: 'Password reset code sent to the user' };
+  }
+
+  /**
+   * Permanently delete a user and everything tied to their account
+   */
+  async deleteUser(actorId: string, userId: string): Promise<void> {
+    if (actorId === userId) {
+      throw new AppError('Use account deletion to delete your own account', 400);
+    }
+
+    await this.findUser(userId);
+    await accountDeletionService.purgeUser(userId);
+  }
+
+  /**
+   * Mint a short-lived access token that acts as the user, for support debugging.
+   * The token names the admin, cannot be refreshed, and every request made with it is audited.
+   */
+  async impersonate(actorId: string, userId: string, context: RequestContext = {}) {
+    if (actorId === userId) {
+      throw new AppError('You cannot impersonate yourself', 400);
+    }
+
+    const user = await this.findUser(userId);
+
+    // Acting as another staff member would let support borrow their permissions
+    if ((user.roles || []).length > 0) {
+      throw new AppError('Accounts with staff roles cannot be impersonated', 403);
+    }
+
+    await accountStatusService.assertActive(user);
+
+    const payload = { ...createJWTPayload(user), impersonatedBy: actorId };
+    const accessToken = generateAccessToken(payload, impersonationConfig.tokenTtlSeconds);
+
+    await auditService.record({ type: 'impersonation_start', outcome: 'success', userId, actorId, context });
+
+    return {
+      accessToken,
+      expiresIn: impersonationConfig.tokenTtlSeconds,
+      impersonatedBy: actorId,
+      user: toSummary(user),
+    };
+  }
+
+  private async findUser(userId: string, select?: string) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new AppError('User not found', 404);
+    }
+
+    const query = User.findById(userId);
+    const user = await (select ? query.select(select) : query);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  private assertPlan(plan: string): void {
+    if (!(PLANS as readonly string[]).includes(plan)) {
+      throw new AppError(`Plan must be one of: ${PLANS.join(', ')}`, 400);
+    }
+  }
+}
+
+// Export singleton instance
+export const adminService = new AdminService();
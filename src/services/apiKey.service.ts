@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ApiKey, { API_KEY_SCOPES } from '../models/ApiKey';
+import { AppError } from '../middleware/errorHandler';
+import { ApiKeyScope, IApiKey } from '../types';
+
+const KEY_PREFIX = 'vgk';
+const MAX_KEYS_PER_USER = 25;
+// Avoid a write on every request - last-used is only tracked to the minute
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+const toResponse = (apiKey: IApiKey) => ({
+  id: apiKey._id.toString(),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+  lastUsedIp: apiKey.lastUsedIp,
+  expiresAt: apiKey.expiresAt?.toISOString(),
+  createdAt: apiKey.createdAt.toISOString(),
+});
+
+export class ApiKeyService {
+  /**
+   * Create a key. The full key is returned only here and never stored.
+   */
+  async createKey(userId: string, name: string, scopes: string[], expiresInDays?: number) {
+    const validScopes = this.validateScopes(scopes);
+
+    const activeCount = await ApiKey.countDocuments({ user: userId, revokedAt: { $exists: false } });
+    if (activeCount >= MAX_KEYS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_KEYS_PER_USER} active API keys`, 400);
+    }
+
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365)) {
+      throw new AppError('expiresInDays must be a whole number between 1 and 365', 400);
+    }
+
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await ApiKey.create({
+      user: userId,
+      name,
+      prefix,
+      keyHash: hashKey(key),
+      scopes: validScopes,
+      ...(expiresInDays && { expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) }),
+    });
+
+    return { apiKey: toResponse(apiKey), key };
+  }
+
+  /**
+   * List a user's active keys
+   */
+  async listKeys(userId: string) {
+    const apiKeys = await ApiKey.find({ user: userId, revokedAt: { $exists: false } }).sort({ createdAt: -1 });
+    return apiKeys.map(toResponse);
+  }
+
+  /**
+   * Rename a key or change its scopes
+   */
+  async updateKey(userId: string, keyId: string, updates: { name?: string; scopes?: string[] }) {
+    const apiKey = await this.findOwnedKey(userId, keyId);
+
+    if (updates.name !== undefined) {
+      apiKey.name = updates.name;
+    }
+    if (updates.scopes !== undefined) {
+      apiKey.scopes = this.validateScopes(updates.scopes);
+    }
+    await apiKey.save();
+
+    return toResponse(apiKey);
+  }
+
+  /**
+   * Revoke a key
+   */
+  async revokeKey(userId: string, keyId: string): Promise<void> {
+    const apiKey = await this.findOwnedKey(userId, keyId);
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+  }
+
+  /**
+   * Revoke every key for a user
+   */
+  async revokeAllKeys(userId: string): Promise<void> {
+    await ApiKey.updateMany({ user: userId, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+  }
+
+  /**
+   * Whether an already resolved key is still usable (long-lived requests re-check it)
+   */
+  async isActive(keyId: string): Promise<boolean> {
+    const apiKey = await ApiKey.findById(keyId);
+    return !!apiKey && !apiKey.revokedAt && !(apiKey.expiresAt && apiKey.expiresAt < new Date());
+  }
+
+  /**
+   * Resolve a presented key. Returns null if it is unknown, revoked or expired.
+   */
+  async authenticate(key: string, ip?: string): Promise<IApiKey | null> {
+    const match = /^(vgk_[0-9a-f]{12})_[0-9a-f]{48}$/.exec(key || '');
+    if (!match) return null;
+
+    const apiKey = await ApiKey.findOne({ prefix: match[1] }).select('+keyHash');
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const presented = Buffer.from(hashKey(key), 'hex');
+    if (!crypto.timingSafeEqual(expected, presented)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS || apiKey.lastUsedIp !== ip) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now, ...(ip && { lastUsedIp: ip }) });
+    }
+
+    return apiKey;
+  }
+
+  private async findOwnedKey(userId: string, keyId: string) {
+    if (!mongoose.Types.ObjectId.isValid(keyId)) {
+      throw new AppError('API key not found', 404);
+    }
+
+    const apiKey = await ApiKey.findOne({ _id: keyId, user: userId, revokedAt: { $exists: false } });
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+    return apiKey;
+  }
+
+  private validateScopes(scopes: string[]): ApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new AppError(`At least one scope is required: ${API_KEY_SCOPES.join(', ')}`, 400);
+    }
+
+    const invalid = scopes.filter(scope => !(API_KEY_SCOPES as readonly string[]).includes(scope));
+    if (invalid.length > 0) {
+      throw new AppError(`Invalid scopes: ${invalid.join(', ')}`, 400);
+    }
+
+    return Array.from(new Set(scopes)) as ApiKeyScope[];
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
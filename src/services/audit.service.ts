@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import AuditEvent, { AUDIT_EVENT_TYPES } from '../models/AuditEvent';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogConfig } from '../config/security';
+import { AuditEventType, AuditOutcome, IAuditEvent, RequestContext } from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface AuditEntry {
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  userId?: string;
+  // Defaults to userId - set it when someone acts on another user's account
+  actorId?: string;
+  email?: string;
+  context?: RequestContext;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  userId?: string;
+  actorId?: string;
+  email?: string;
+  type?: string;
+  outcome?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+const toResponse = (event: IAuditEvent) => ({
+  id: event._id.toString(),
+  type: event.type,
+  outcome: event.outcome,
+  userId: event.user?.toString(),
+  actorId: event.actor?.toString(),
+  email: event.email,
+  ip: event.ip,
+  userAgent: event.userAgent,
+  reason: event.reason,
+  metadata: event.metadata,
+  createdAt: event.createdAt.toISOString(),
+});
+
+export class AuditService {
+  /**
+   * Record an event. Never throws - a logging failure must not break the request.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    // Ids come from request input on some failure paths - drop anything that is not an ObjectId
+    const userId = entry.userId && mongoose.Types.ObjectId.isValid(entry.userId) ? entry.userId : undefined;
+    const actorId = entry.actorId && mongoose.Types.ObjectId.isValid(entry.actorId) ? entry.actorId : userId;
+
+    try {
+      await AuditEvent.create({
+        type: entry.type,
+        outcome: entry.outcome,
+        ...(userId && { user: userId }),
+        ...(actorId && { actor: actorId }),
+        ...(entry.email && { email: entry.email }),
+        ip: entry.context?.ip,
+        userAgent: entry.context?.userAgent?.substring(0, 512),
+        reason: entry.reason,
+        metadata: entry.metadata,
+        expiresAt: new Date(Date.now() + auditLogConfig.retentionDays * 24 * 60 * 60 * 1000),
+      });
+    } catch (error: any) {
+      console.error('❌ Failed to record audit event:', entry.type, error.message);
+    }
+  }
+
+  /**
+   * A user's own recent account activity
+   */
+  async listForUser(userId: string, options: { page?: number; limit?: number } = {}) {
+    return this.query({ userId, page: options.page, limit: options.limit });
+  }
+
+  /**
+   * Search events, newest first
+   */
+  async query(query: AuditQuery) {
+    const page = Math.max(1, Math.floor(query.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+
+    const filter: Record<string, any> = {};
+    if (query.userId) {
+      filter.user = this.toObjectId(query.userId, 'userId');
+    }
+    if (query.actorId) {
+      filter.actor = this.toObjectId(query.actorId, 'actorId');
+    }
+    if (query.email) {
+      filter.email = query.email.toLowerCase();
+    }
+    if (query.type) {
+      if (!(AUDIT_EVENT_TYPES as readonly string[]).includes(query.type)) {
+        throw new AppError(`Type must be one of: ${AUDIT_EVENT_TYPES.join(', ')}`, 400);
+      }
+      filter.type = query.type;
+    }
+    if (query.outcome) {
+      if (query.outcome !== 'success' && query.outcome !== 'failure') {
+        throw new AppError('Outcome must be success or failure', 400);
+      }
+      filter.outcome = query.outcome;
+    }
+    if (query.ip) {
+      filter.ip = query.ip;
+    }
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(filter).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * limit).limit(limit),
+      AuditEvent.countDocuments(filter),
+    ]);
+
+    return {
+      events: events.map(toResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private toObjectId(id: string, name: string): mongoose.Types.ObjectId {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new AppError(`${name} is not a valid id`, 400);
+    }
+    return new mongoose.Types.ObjectId(id);
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
@@ -1,110 +1,104 @@
 import crypto from 'crypto';
+import mongoose from 'mongoose';
 import User from '../models/User';
-import { generateTokens, createJWTPayload, verifyRefreshToken } from '../utils/jwt';
 import { emailService } from '../utils/email.service';
+import { generateMfaToken, verifyMfaToken, decodeToken, MFA_TOKEN_EXPIRE_SECONDS } from '../utils/jwt';
+import { sessionService } from './session.service';
+import { revocationService } from './revocation.service';
+import { mfaService } from './mfa.service';
+import { oneTimeCodeService } from './oneTimeCode.service';
+import { loginThrottleService } from './loginThrottle.service';
+import { apiKeyService } from './apiKey.service';
+import { accountStatusService } from './accountStatus.service';
+import { auditService, AuditEntry } from './audit.service';
+import { dataExportService } from './dataExport.service';
+import { accountDeletionService } from './accountDeletion.service';
+import { passwordPolicyService } from './passwordPolicy.service';
 import { AppError } from '../middleware/errorHandler';
-import { AuthResponse } from '../types';
+import { magicLinkConfig, emailChangeConfig } from '../config/security';
+import { AuthResponse, DataExportFormat, IUser, JWTPayload, MfaChallengeResponse, RequestContext, SessionRevokeReason } from '../types';
+
+type AuditContext = Omit<AuditEntry, 'outcome'>;
 
 export class AuthService {
   /**
    * Register a new user (step 1 - send verification code)
    */
-  async register(name: string, email: string, password: string): Promise<{ message: string; tempUserId: string }> {
-    // Check if user already exists
-    const existingUser = await User.findOne({ email });
-    if (existingUser && existingUser.isEmailVerified) {
-      throw new AppError('User with this email already exists', 400);
-    }
-
-    // Generate verification code
-    const verificationCode = emailService.generateVerificationCode();
-    const verificationExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    let user;
-    if (existingUser && !existingUser.isEmailVerified) {
-      // Update existing unverified user
-      user = existingUser;
-      user.name = name;
-      user.password = password; // Will be hashed by pre-save hook
-      user.emailVerificationCode = verificationCode;
-      user.emailVerificationExpires = verificationExpires;
-      await user.save();
-    } else {
-      // Create new user
-      user = await User.create({
-        name,
-        email,
-        password,
-        plan: 'free',
-        isAdmin: false,
-        isEmailVerified: false,
-        emailVerificationCode: verificationCode,
-        emailVerificationExpires: verificationExpires,
-      });
-    }
-
-    // Send verification code email
-    await emailService.sendVerificationCode(email, name, verificationCode);
-
-    return {
-      message: 'Verification code sent to your email',
-      tempUserId: user._id.toString(),
-    };
+  async register(name: string, email: string, password: string, context: RequestContext = {}): Promise<{ message: string; tempUserId: string }> {
+    const entry: AuditContext = { type: 'register', email, context };
+    return this.audit(entry, async () => {
+      await passwordPolicyService.assertValid(password, { name, email });
+
+      // Check if user already exists
+      const existingUser = await User.findOne({ email });
+      if (existingUser && existingUser.isEmailVerified) {
+        throw new AppError('User with this email already exists', 400);
+      }
+
+      let user;
+      if (existingUser && !existingUser.isEmailVerified) {
+        // Update existing unverified user
+        user = existingUser;
+        user.name = name;
+        user.password = password; // Will be hashed by pre-save hook
+        await user.save();
+      } else {
+        // Create new user
+        user = await User.create({
+          name,
+          email,
+          password,
+          plan: 'free',
+          isEmailVerified: false,
+        });
+      }
+
+      entry.userId = user._id.toString();
+
+      // Generate verification code (10 minutes)
+      const verificationCode = await oneTimeCodeService.issue(user._id.toString(), 'email_verification');
+
+      // Send verification code email
+      await emailService.sendVerificationCode(email, name, verificationCode);
+
+      return {
+        message: 'Verification code sent to your email',
+        tempUserId: user._id.toString(),
+      };
+    });
   }
 
   /**
    * Verify email with 6-digit code (step 2 - complete registration)
    */
-  async verifyEmail(userId: string, code: string): Promise<AuthResponse> {
-    const user = await User.findById(userId).select('+emailVerificationCode +emailVerificationExpires');
+  async verifyEmail(userId: string, code: string, context: RequestContext = {}): Promise<AuthResponse> {
+    const entry: AuditContext = { type: 'verify_email', userId, context };
+    return this.audit(entry, async () => {
+      const user = await User.findById(userId);
     
-    if (!user) {
-      throw new AppError('User not found', 404);
-    }
-
-    if (user.isEmailVerified) {
-      throw new AppError('Email already verified', 400);
-    }
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
 
-    if (!user.emailVerificationCode || !user.emailVerificationExpires) {
-      throw new AppError('No verification code found. Please request a new one.', 400);
-    }
-
-    if (user.emailVerificationExpires < new Date()) {
-      throw new AppError('Verification code has expired. Please request a new one.', 400);
-    }
+      if (user.isEmailVerified) {
+        throw new AppError('Email already verified', 400);
+      }
 
-    if (user.emailVerificationCode !== code) {
-      throw new AppError('Invalid verification code', 400);
-    }
+      await oneTimeCodeService.verify(user._id.toString(), 'email_verification', code);
 
-    // Mark email as verified and clear verification fields
-    user.isEmailVerified = true;
-    user.emailVerificationCode = undefined;
-    user.emailVerificationExpires = undefined;
-    user.lastLogin = new Date();
-    await user.save();
+      // Mark email as verified
+      user.isEmailVerified = true;
+      user.lastLogin = new Date();
+      await user.save();
 
-    // Generate JWT tokens
-    const jwtPayload = createJWTPayload(user);
-    const { accessToken, refreshToken } = generateTokens(jwtPayload);
+      // Start a new session and issue its tokens
+      const authResponse = await this.createAuthResponse(user, context);
 
-    // Send welcome email
-    await emailService.sendWelcomeEmail(user.email, user.name);
+      // Send welcome email
+      await emailService.sendWelcomeEmail(user.email, user.name);
 
-    return {
-      user: {
-        id: user._id.toString(),
-        name: user.name,
-        email: user.email,
-        plan: user.plan,
-        isAdmin: user.isAdmin,
-        connectedPlatforms: user.connectedPlatforms || [],
-        videosGenerated: user.videosGenerated || 0,
-      },
-      token: accessToken,
-      refreshToken,
-    };
+      return authResponse;
+    });
   }
 
   /**
@@ -121,13 +115,8 @@ export class AuthService {
       throw new AppError('Email already verified', 400);
     }
 
-    // Generate new verification code
-    const verificationCode = emailService.generateVerificationCode();
-    const verificationExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    user.emailVerificationCode = verificationCode;
-    user.emailVerificationExpires = verificationExpires;
-    await user.save();
+    // Generate new verification code (replaces the previous one)
+    const verificationCode = await oneTimeCodeService.issue(user._id.toString(), 'email_verification');
 
     // Send verification code email
     await emailService.sendVerificationCode(user.email, user.name, verificationCode);
@@ -138,46 +127,177 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(email: string, password: string): Promise<AuthResponse> {
-    // Find user and include password for validation
-    const user = await User.findOne({ email }).select('+password');
+  async login(email: string, password: string, context: RequestContext = {}): Promise<AuthResponse | MfaChallengeResponse> {
+    const entry: AuditContext = { type: 'login', email, context, metadata: { method: 'password' } };
+    return this.audit(entry, async () => {
+      // Refuse early while the account or IP + account pair is locked or backing off
+      await loginThrottleService.assertAllowed(email, context.ip);
+
+      // Find user and include password for validation
+      const user = await User.findOne({ email }).select('+password');
     
-    if (!user) {
-      throw new AppError('Invalid email or password', 401);
-    }
+      if (!user) {
+        await loginThrottleService.recordFailure(email, context.ip);
+        throw new AppError('Invalid email or password', 401);
+      }
+
+      entry.userId = user._id.toString();
+
+      // Check if email is verified
+      if (!user.isEmailVerified) {
+        throw new AppError('Please verify your email before logging in. Check your email for verification code.', 401);
+      }
+
+      // Check password
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid) {
+        await loginThrottleService.recordFailure(email, context.ip);
+        throw new AppError('Invalid email or password', 401);
+      }
+
+      await loginThrottleService.recordSuccess(email, context.ip);
+      await this.upgradePasswordHash(user, password);
+
+      // Only tell someone who knows the password that the account is suspended or banned
+      await accountStatusService.assertActive(user);
+
+      // Second factor required - hand back a short-lived challenge instead of tokens
+      if (user.twoFactorEnabled) {
+        entry.metadata = { ...entry.metadata, mfaRequired: true };
+        return this.createMfaChallenge(user);
+      }
+
+      // Update last login
+      user.lastLogin = new Date();
+      await user.save();
 
-    // Check if email is verified
-    if (!user.isEmailVerified) {
-      throw new AppError('Please verify your email before logging in. Check your email for verification code.', 401);
-    }
+      return this.createAuthResponse(user, context);
+    });
+  }
 
-    // Check password
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
-      throw new AppError('Invalid email or password', 401);
+  /**
+   * Passwordless login - email a single-use sign-in link and code
+   */
+  async requestMagicLink(email: string): Promise<{ message: string }> {
+    const message = 'If an account with that email exists, a sign-in link has been sent';
+
+    await loginThrottleService.consumeMagicLinkQuota(email);
+
+    const user = await User.findOne({ email });
+    // Don't reveal whether the email exists; unverified accounts must finish registration first
+    if (!user || !user.isEmailVerified) {
+      return { message };
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    const userId = user._id.toString();
+    const options = { ttlMs: magicLinkConfig.ttlMs };
+    const token = await oneTimeCodeService.issue(userId, 'magic_link', { ...options, format: 'token' });
+    const code = await oneTimeCodeService.issue(userId, 'magic_code', options);
 
-    // Generate JWT tokens
-    const jwtPayload = createJWTPayload(user);
-    const { accessToken, refreshToken } = generateTokens(jwtPayload);
+    const link = this.buildLink('/auth/magic-link', userId, token);
 
-    return {
-      user: {
-        id: user._id.toString(),
-        name: user.name,
-        email: user.email,
-        plan: user.plan,
-        isAdmin: user.isAdmin,
-        connectedPlatforms: user.connectedPlatforms || [],
-        videosGenerated: user.videosGenerated || 0,
-      },
-      token: accessToken,
-      refreshToken,
-    };
+    await emailService.sendMagicLink(user.email, user.name, link, code, Math.round(magicLinkConfig.ttlMs / 60000));
+
+    return { message };
+  }
+
+  /**
+   * Passwordless login - exchange a sign-in link token or email code for tokens
+   */
+  async loginWithMagicLink(
+    credentials: { token?: string; email?: string; code?: string },
+    context: RequestContext = {}
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    const entry: AuditContext = { type: 'login', email: credentials.email, context, metadata: { method: 'magic_link' } };
+    return this.audit(entry, async () => {
+      let user;
+
+      // Bodies are not schema-checked, so a number or object here would otherwise throw
+      if ([credentials.token, credentials.email, credentials.code].some(value => value !== undefined && typeof value !== 'string')) {
+        throw new AppError('Sign-in token, email and code must be strings', 400);
+      }
+
+      if (credentials.token) {
+        const { userId, secret } = this.parseLinkToken(credentials.token);
+        user = userId ? await User.findById(userId) : null;
+        if (!user || !userId) {
+          throw new AppError('Invalid or expired sign-in link', 400);
+        }
+
+        await oneTimeCodeService.verify(userId, 'magic_link', secret);
+      } else if (credentials.email && credentials.code) {
+        user = await User.findOne({ email: credentials.email.toLowerCase() });
+        if (!user) {
+          throw new AppError('Invalid or expired sign-in code', 400);
+        }
+
+        await oneTimeCodeService.verify(user._id.toString(), 'magic_code', credentials.code);
+      } else {
+        throw new AppError('A sign-in token, or email and code, is required', 400);
+      }
+
+      entry.userId = user._id.toString();
+
+      // The link and the code are two ways to redeem the same sign-in - burn both
+      await oneTimeCodeService.revoke(user._id.toString(), 'magic_link');
+      await oneTimeCodeService.revoke(user._id.toString(), 'magic_code');
+
+      if (!user.isEmailVerified) {
+        throw new AppError('Please verify your email before logging in. Check your email for verification code.', 401);
+      }
+
+      await accountStatusService.assertActive(user);
+
+      if (user.twoFactorEnabled) {
+        entry.metadata = { ...entry.metadata, mfaRequired: true };
+        return this.createMfaChallenge(user);
+      }
+
+      user.lastLogin = new Date();
+      await user.save();
+
+      return this.createAuthResponse(user, context);
+    });
+  }
+
+  /**
+   * Complete login with a TOTP or recovery code (step 2 for 2FA accounts)
+   */
+  async loginWithMfa(
+    mfaToken: string,
+    factor: { code?: string; recoveryCode?: string },
+    context: RequestContext = {}
+  ): Promise<AuthResponse> {
+    const entry: AuditContext = { type: 'login', context, metadata: { method: 'mfa' } };
+    return this.audit(entry, async () => {
+      let userId: string;
+      let challengeId: string;
+      try {
+        ({ userId, jti: challengeId } = verifyMfaToken(mfaToken));
+      } catch (error: any) {
+        throw new AppError(`${error.message}. Please log in again.`, 401);
+      }
+
+      entry.userId = userId;
+      await loginThrottleService.assertMfaAllowed(userId, challengeId);
+
+      let user: IUser;
+      try {
+        user = await mfaService.verifySecondFactor(userId, factor);
+      } catch (error) {
+        if (error instanceof AppError && error.statusCode === 401) {
+          await loginThrottleService.recordMfaFailure(userId, challengeId);
+        }
+        throw error;
+      }
+      await loginThrottleService.recordMfaSuccess(userId, challengeId);
+
+      // Update last login
+      user.lastLogin = new Date();
+      await user.save();
+
+      return this.createAuthResponse(user, context);
+    });
   }
 
   /**
@@ -195,8 +315,10 @@ export class AuthService {
       email: user.email,
       plan: user.plan,
       isAdmin: user.isAdmin,
+      roles: user.roles || [],
       connectedPlatforms: user.connectedPlatforms || [],
       videosGenerated: user.videosGenerated || 0,
+      twoFactorEnabled: user.twoFactorEnabled || false,
       lastLogin: user.lastLogin?.toISOString(),
       createdAt: user.createdAt?.toISOString(),
     };
@@ -205,21 +327,17 @@ export class AuthService {
   /**
    * Refresh JWT token
    */
-  async refreshToken(refreshToken: string): Promise<{ token: string; refreshToken: string }> {
-    const decoded = verifyRefreshToken(refreshToken);
-    const user = await User.findById(decoded.userId);
-
-    if (!user) {
-      throw new AppError('Invalid refresh token', 401);
-    }
-
-    const jwtPayload = createJWTPayload(user);
-    const { accessToken, refreshToken: newRefreshToken } = generateTokens(jwtPayload);
-
-    return {
-      token: accessToken,
-      refreshToken: newRefreshToken,
-    };
+  async refreshToken(refreshToken: string, context: RequestContext = {}): Promise<{ token: string; refreshToken: string }> {
+    const entry: AuditContext = { type: 'refresh', context };
+    return this.audit(entry, async () => {
+      const { accessToken, refreshToken: newRefreshToken } = await sessionService.rotateSession(refreshToken, context);
+      entry.userId = decodeToken(newRefreshToken)?.id;
+
+      return {
+        token: accessToken,
+        refreshToken: newRefreshToken,
+      };
+    });
   }
 
   /**
@@ -236,14 +354,8 @@ export class AuthService {
       throw new AppError('Please verify your email first before resetting password', 400);
     }
 
-    // Generate reset code
-    const resetCode = emailService.generateVerificationCode();
-    const resetExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    // Set reset code and expiry
-    user.passwordResetCode = resetCode;
-    user.passwordResetExpires = resetExpires;
-    await user.save();
+    // Generate reset code (10 minutes)
+    const resetCode = await oneTimeCodeService.issue(user._id.toString(), 'password_reset');
 
     // Send reset code email
     await emailService.sendPasswordResetCode(user.email, user.name, resetCode);
@@ -255,124 +367,535 @@ export class AuthService {
    * Verify reset code (without resetting password)
    */
   async verifyResetCode(email: string, code: string): Promise<{ message: string }> {
-    const user = await User.findOne({
-      email,
-      passwordResetCode: code,
-      passwordResetExpires: { $gt: new Date() },
-    }).select('+passwordResetCode +passwordResetExpires');
-
+    const user = await User.findOne({ email });
     if (!user) {
       throw new AppError('Invalid or expired reset code', 400);
     }
 
+    // Keep the code alive for the reset step
+    await oneTimeCodeService.verify(user._id.toString(), 'password_reset', code, { consume: false });
+
     return { message: 'Reset code verified successfully' };
   }
 
   /**
    * Verify reset code and reset password
    */
-  async resetPassword(email: string, code: string, newPassword: string): Promise<AuthResponse> {
-    // Find user with valid reset code
-    const user = await User.findOne({
-      email,
-      passwordResetCode: code,
-      passwordResetExpires: { $gt: new Date() },
-    }).select('+passwordResetCode +passwordResetExpires');
+  async resetPassword(
+    email: string,
+    code: string,
+    newPassword: string,
+    context: RequestContext = {}
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    const entry: AuditContext = { type: 'password_reset', email, context };
+    return this.audit(entry, async () => {
+      const user = await User.findOne({ email });
+      if (!user) {
+        throw new AppError('Invalid or expired reset code', 400);
+      }
+
+      entry.userId = user._id.toString();
+      // Prove the code before revealing anything about the account (such as policy
+      // failures that mention its name), but only use it up once the password is accepted
+      await oneTimeCodeService.verify(user._id.toString(), 'password_reset', code, { consume: false });
+      await passwordPolicyService.assertValid(newPassword, { name: user.name, email: user.email });
+      await oneTimeCodeService.consume(user._id.toString(), 'password_reset');
+
+      // Update password
+      user.password = newPassword;
+      await user.save();
 
-    if (!user) {
-      throw new AppError('Invalid or expired reset code', 400);
-    }
+      // Sign out every existing session, then start a fresh one
+      await sessionService.revokeAllSessions(user._id.toString(), 'password_reset');
 
-    // Update password and clear reset code
-    user.password = newPassword;
-    user.passwordResetCode = undefined;
-    user.passwordResetExpires = undefined;
-    user.lastLogin = new Date();
-    await user.save();
+      // The reset code only proves control of the mailbox, not the second factor
+      if (user.twoFactorEnabled) {
+        await accountStatusService.assertActive(user);
+        entry.metadata = { ...entry.metadata, mfaRequired: true };
+        return this.createMfaChallenge(user);
+      }
 
-    // Generate new JWT tokens
-    const jwtPayload = createJWTPayload(user);
-    const { accessToken, refreshToken } = generateTokens(jwtPayload);
+      user.lastLogin = new Date();
+      await user.save();
 
-    return {
-      user: {
+      return this.createAuthResponse(user, context);
+    });
+  }
+
+  /**
+   * Update user profile
+   */
+  async updateProfile(userId: string, name: string, context: RequestContext = {}) {
+    const entry: AuditContext = { type: 'profile_update', userId, context, metadata: { fields: ['name'] } };
+    return this.audit(entry, async () => {
+      const user = await User.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      user.name = name;
+      await user.save();
+
+      return {
         id: user._id.toString(),
         name: user.name,
         email: user.email,
         plan: user.plan,
         isAdmin: user.isAdmin,
+        roles: user.roles || [],
         connectedPlatforms: user.connectedPlatforms || [],
         videosGenerated: user.videosGenerated || 0,
-      },
-      token: accessToken,
-      refreshToken,
-    };
+        twoFactorEnabled: user.twoFactorEnabled || false,
+        lastLogin: user.lastLogin?.toISOString(),
+        createdAt: user.createdAt?.toISOString(),
+      };
+    });
   }
 
   /**
-   * Update user profile
+   * Request an email change - code goes to the new address, undo link to the old one
    */
-  async updateProfile(userId: string, name: string) {
-    const user = await User.findById(userId);
+  async requestEmailChange(userId: string, newEmail: string, password: string): Promise<{ message: string }> {
+    const user = await User.findById(userId).select('+password');
     if (!user) {
       throw new AppError('User not found', 404);
     }
 
-    user.name = name;
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new AppError('Password is incorrect', 400);
+    }
+
+    const email = newEmail.toLowerCase();
+    if (email === user.email) {
+      throw new AppError('New email must be different from your current email', 400);
+    }
+
+    if (await User.exists({ email })) {
+      throw new AppError('Email is already in use', 400);
+    }
+
+    user.pendingEmail = email;
+    user.pendingEmailExpires = new Date(Date.now() + emailChangeConfig.codeTtlMs);
     await user.save();
 
-    return {
-      id: user._id.toString(),
-      name: user.name,
-      email: user.email,
-      plan: user.plan,
-      isAdmin: user.isAdmin,
-      connectedPlatforms: user.connectedPlatforms || [],
-      videosGenerated: user.videosGenerated || 0,
-      lastLogin: user.lastLogin?.toISOString(),
-      createdAt: user.createdAt?.toISOString(),
-    };
+    const code = await oneTimeCodeService.issue(userId, 'email_change', { ttlMs: emailChangeConfig.codeTtlMs });
+    const undoToken = await oneTimeCodeService.issue(userId, 'email_change_undo', {
+      ttlMs: emailChangeConfig.undoTtlMs,
+      format: 'token',
+    });
+
+    await emailService.sendEmailChangeCode(email, user.name, code, Math.round(emailChangeConfig.codeTtlMs / 60000));
+    await emailService.sendEmailChangeNotice(user.email, user.name, email, this.buildLink('/auth/undo-email-change', userId, undoToken));
+
+    return { message: 'A confirmation code has been sent to your new email address' };
   }
 
   /**
-   * Change password
+   * Confirm an email change with the code sent to the new address.
+   * Every session is signed out afterwards.
    */
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
-    const user = await User.findById(userId).select('+password');
+  async confirmEmailChange(userId: string, code: string): Promise<{ email: string }> {
+    const user = await User.findById(userId).select('+pendingEmail +pendingEmailExpires');
     if (!user) {
       throw new AppError('User not found', 404);
     }
 
-    // Verify current password
-    const isCurrentPasswordValid = await user.comparePassword(currentPassword);
-    if (!isCurrentPasswordValid) {
-      throw new AppError('Current password is incorrect', 400);
+    if (!user.pendingEmail || !user.pendingEmailExpires || user.pendingEmailExpires < new Date()) {
+      throw new AppError('No email change in progress. Please request a new one.', 400);
+    }
+
+    await oneTimeCodeService.verify(userId, 'email_change', code);
+
+    if (await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } })) {
+      throw new AppError('Email is already in use', 400);
+    }
+
+    user.previousEmail = user.email;
+    user.email = user.pendingEmail;
+    user.pendingEmail = undefined;
+    user.pendingEmailExpires = undefined;
+
+    try {
+      await user.save();
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new AppError('Email is already in use', 400);
+      }
+      throw error;
     }
 
-    // Update password
-    user.password = newPassword;
+    await this.invalidateAllAccess(userId, 'email_change');
+
+    return { email: user.email };
+  }
+
+  /**
+   * Undo an email change from the link sent to the old address.
+   * Cancels a pending change or reverts a confirmed one.
+   */
+  async undoEmailChange(token: string): Promise<{ message: string }> {
+    const { userId, secret } = this.parseLinkToken(token);
+    const user = userId ? await User.findById(userId).select('+pendingEmail +previousEmail') : null;
+    if (!user || !userId) {
+      throw new AppError('Invalid or expired undo link', 400);
+    }
+
+    await oneTimeCodeService.verify(userId, 'email_change_undo', secret);
+    await oneTimeCodeService.revoke(userId, 'email_change');
+
+    if (user.previousEmail && user.previousEmail !== user.email) {
+      if (await User.exists({ email: user.previousEmail, _id: { $ne: user._id } })) {
+        throw new AppError('The previous email address is no longer available. Please contact support.', 409);
+      }
+      user.email = user.previousEmail;
+    }
+
+    user.pendingEmail = undefined;
+    user.pendingEmailExpires = undefined;
+    user.previousEmail = undefined;
     await user.save();
+
+    // Whoever requested the change may still be signed in
+    await this.invalidateAllAccess(userId, 'email_change');
+
+    return { message: 'Email change has been undone. Please log in again and consider resetting your password.' };
   }
 
   /**
-   * Delete user account
+   * Change password (keeps the current session, signs out all others)
    */
-  async deleteAccount(userId: string, password: string): Promise<void> {
-    const user = await User.findById(userId).select('+password');
-    if (!user) {
-      throw new AppError('User not found', 404);
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string,
+    context: RequestContext = {}
+  ): Promise<void> {
+    const entry: AuditContext = { type: 'password_change', userId, context };
+    return this.audit(entry, async () => {
+      const user = await User.findById(userId).select('+password');
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      // Verify current password
+      const isCurrentPasswordValid = await user.comparePassword(currentPassword);
+      if (!isCurrentPasswordValid) {
+        throw new AppError('Current password is incorrect', 400);
+      }
+
+      await passwordPolicyService.assertValid(newPassword, { name: user.name, email: user.email }, 'newPassword');
+
+      // Update password
+      user.password = newPassword;
+      await user.save();
+
+      await sessionService.revokeAllSessions(userId, 'password_change', currentSessionId);
+    });
+  }
+
+  /**
+   * Logout - revoke the access token and the session it belongs to
+   */
+  async logout(tokenPayload?: JWTPayload, context: RequestContext = {}): Promise<void> {
+    if (!tokenPayload) return;
+
+    const entry: AuditContext = { type: 'logout', userId: tokenPayload.id, context };
+    return this.audit(entry, async () => {
+      await revocationService.revokeToken(tokenPayload);
+      if (tokenPayload.sid) {
+        await sessionService.revokeSession(tokenPayload.sid, 'logout');
+      }
+    });
+  }
+
+  /**
+   * List active sessions (devices) for the user
+   */
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await sessionService.listSessions(userId);
+
+    return sessions.map(session => ({
+      id: session._id.toString(),
+      device: {
+        browser: session.device?.browser || 'Unknown',
+        os: session.device?.os || 'Unknown',
+        type: session.device?.type || 'unknown',
+      },
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt.toISOString(),
+      lastUsedAt: session.lastUsedAt.toISOString(),
+      isCurrent: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await sessionService.revokeUserSession(userId, sessionId);
+  }
+
+  /**
+   * Sign out everywhere except the current session
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<{ revokedCount: number }> {
+    const revokedCount = await sessionService.revokeAllSessions(userId, 'user_revoked', currentSessionId);
+    return { revokedCount };
+  }
+
+  /**
+   * Start TOTP two-factor enrollment
+   */
+  async setupTwoFactor(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    return mfaService.beginEnrollment(userId);
+  }
+
+  /**
+   * Confirm TOTP enrollment and issue recovery codes
+   */
+  async confirmTwoFactor(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    return mfaService.confirmEnrollment(userId, code);
+  }
+
+  /**
+   * Disable two-factor authentication
+   */
+  async disableTwoFactor(userId: string, password: string): Promise<void> {
+    await mfaService.disable(userId, password);
+  }
+
+  /**
+   * Regenerate two-factor recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string, password: string): Promise<{ recoveryCodes: string[] }> {
+    return mfaService.regenerateRecoveryCodes(userId, password);
+  }
+
+  /**
+   * Create a personal API key (the key itself is only returned once)
+   */
+  async createApiKey(userId: string, name: string, scopes: string[], expiresInDays?: number) {
+    return apiKeyService.createKey(userId, name, scopes, expiresInDays);
+  }
+
+  /**
+   * List personal API keys
+   */
+  async getApiKeys(userId: string) {
+    return apiKeyService.listKeys(userId);
+  }
+
+  /**
+   * Rename a personal API key or change its scopes
+   */
+  async updateApiKey(userId: string, keyId: string, updates: { name?: string; scopes?: string[] }) {
+    return apiKeyService.updateKey(userId, keyId, updates);
+  }
+
+  /**
+   * Revoke a personal API key
+   */
+  async revokeApiKey(userId: string, keyId: string): Promise<void> {
+    await apiKeyService.revokeKey(userId, keyId);
+  }
+
+  /**
+   * Recent security activity on the user's account
+   */
+  async getActivity(userId: string, options: { page?: number; limit?: number } = {}) {
+    return auditService.listForUser(userId, options);
+  }
+
+  /**
+   * Request a GDPR export of the user's data - emailed as a download link when ready
+   */
+  async requestDataExport(userId: string, format: DataExportFormat = 'json', context: RequestContext = {}) {
+    const entry: AuditContext = { type: 'data_export', userId, context, metadata: { format } };
+    return this.audit(entry, () => dataExportService.requestExport(userId, format));
+  }
+
+  /**
+   * List the user's recent data exports
+   */
+  async getDataExports(userId: string) {
+    return dataExportService.listExports(userId);
+  }
+
+  /**
+   * Download a finished data export by its emailed link token
+   */
+  async downloadDataExport(token: string) {
+    return dataExportService.download(token);
+  }
+
+  /**
+   * Delete user account. The account stays restorable (by logging in or the
+   * emailed link) until the grace period ends and the purge job removes it.
+   */
+  async deleteAccount(userId: string, password: string, context: RequestContext = {}): Promise<{ scheduledFor: string }> {
+    const entry: AuditContext = { type: 'account_delete', userId, context };
+    return this.audit(entry, async () => {
+      const user = await User.findById(userId).select('+password');
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      // Verify password before deletion
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid) {
+        throw new AppError('Password is incorrect', 400);
+      }
+
+      // Revoke outstanding tokens, then start the grace period
+      await revocationService.revokeAllForUser(userId);
+      await sessionService.revokeAllSessions(userId, 'account_deleted');
+      await apiKeyService.revokeAllKeys(userId);
+      await dataExportService.deleteExports(userId);
+      const purgeAt = await accountDeletionService.scheduleDeletion(user);
+
+      const restoreToken = await oneTimeCodeService.issue(userId, 'account_restore', {
+        format: 'token',
+        ttlMs: purgeAt.getTime() - Date.now(),
+      });
+      const restoreLink = this.buildLink('/account/restore', userId, restoreToken);
+      await emailService.sendAccountDeletionScheduled(user.email, user.name, restoreLink, purgeAt);
+
+      return { scheduledFor: purgeAt.toISOString() };
+    });
+  }
+
+  /**
+   * Restore an account pending deletion from the emailed link
+   */
+  async restoreAccount(token: string, context: RequestContext = {}): Promise<{ message: string }> {
+    const { userId, secret } = this.parseLinkToken(token);
+    const entry: AuditContext = { type: 'account_restore', userId: userId || undefined, context, metadata: { method: 'link' } };
+
+    return this.audit(entry, async () => {
+      const user = userId ? await User.findById(userId) : null;
+      if (!user || !userId) {
+        throw new AppError('Invalid or expired restore link', 400);
+      }
+
+      await oneTimeCodeService.verify(userId, 'account_restore', secret);
+
+      if (!accountDeletionService.isPendingDeletion(user)) {
+        throw new AppError('This account is not scheduled for deletion', 400);
+      }
+
+      await accountDeletionService.restore(user);
+
+      return { message: 'Your account has been restored. Please log in.' };
+    });
+  }
+
+  /**
+   * Re-hash the password with the current algorithm and cost while we have it in plain text.
+   * Best effort - a failed upgrade must not fail the login.
+   */
+  private async upgradePasswordHash(user: IUser, password: string): Promise<void> {
+    if (!user.passwordNeedsRehash()) return;
+
+    try {
+      user.password = password; // Will be hashed by pre-save hook
+      await user.save();
+    } catch (error: any) {
+      console.error('❌ Failed to upgrade password hash:', user._id.toString(), error.message);
     }
+  }
 
-    // Verify password before deletion
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
-      throw new AppError('Password is incorrect', 400);
+  /**
+   * Run an action and record its outcome in the security audit log.
+   * The action may fill in `entry.userId` once it knows who the event concerns.
+   */
+  private async audit<T>(entry: AuditContext, action: () => Promise<T>): Promise<T> {
+    try {
+      const result = await action();
+      await auditService.record({ ...entry, outcome: 'success' });
+      return result;
+    } catch (error: any) {
+      await auditService.record({ ...entry, outcome: 'failure', reason: error.code || error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out every session and invalidate all outstanding tokens
+   */
+  private async invalidateAllAccess(userId: string, reason: SessionRevokeReason): Promise<void> {
+    await revocationService.revokeAllForUser(userId);
+    await sessionService.revokeAllSessions(userId, reason);
+  }
+
+  /**
+   * Build a frontend link carrying a `<userId>.<secret>` token
+   */
+  private buildLink(path: string, userId: string, secret: string): string {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+    return `${appUrl}${path}?token=${encodeURIComponent(`${userId}.${secret}`)}`;
+  }
+
+  /**
+   * Split a `<userId>.<secret>` link token
+   */
+  private parseLinkToken(token: unknown): { userId: string | null; secret: string } {
+    const [userId, secret] = (typeof token === 'string' ? token : '').split('.');
+    if (!userId || !secret || !mongoose.Types.ObjectId.isValid(userId)) {
+      return { userId: null, secret: '' };
     }
+    return { userId, secret };
+  }
 
-    // Delete user
-    await User.findByIdAndDelete(userId);
+  /**
+   * Build the short-lived challenge returned when a second factor is required
+   */
+  private createMfaChallenge(user: IUser): MfaChallengeResponse {
+    return {
+      mfaRequired: true,
+      mfaToken: generateMfaToken(user._id.toString()),
+      expiresIn: MFA_TOKEN_EXPIRE_SECONDS,
+    };
   }
 
+  /**
+   * Start a session for the user and build the standard auth response
+   */
+  private async createAuthResponse(user: IUser, context: RequestContext): Promise<AuthResponse> {
+    // Every sign-in path ends here, so this also covers MFA, email verification and password reset
+    await accountStatusService.assertActive(user);
+
+    // Signing in during the deletion grace period restores the account
+    if (accountDeletionService.isPendingDeletion(user)) {
+      await accountDeletionService.restore(user);
+      await auditService.record({
+        type: 'account_restore',
+        outcome: 'success',
+        userId: user._id.toString(),
+        context,
+        metadata: { method: 'login' },
+      });
+    }
+
+    const { accessToken, refreshToken } = await sessionService.startSession(user, context);
+
+    return {
+      user: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        plan: user.plan,
+        isAdmin: user.isAdmin,
+        roles: user.roles || [],
+        connectedPlatforms: user.connectedPlatforms || [],
+        videosGenerated: user.videosGenerated || 0,
+      },
+      token: accessToken,
+      refreshToken,
+    };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import DataExport from '../models/DataExport';
+import User from '../models/User';
+import Session from '../models/Session';
+import ApiKey from '../models/ApiKey';
+import AuditEvent from '../models/AuditEvent';
+import { videoService } from './video.service';
+import { emailService } from '../utils/email.service';
+import { createZip } from '../utils/zip';
+import { AppError } from '../middleware/errorHandler';
+import { dataExportConfig } from '../config/security';
+import { DataExportFormat, IDataExport } from '../types';
+
+// A pending job gets this long to finish before its record is discarded
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+// Jobs left in `processing` this long were interrupted (e.g. by a restart)
+const STALE_JOB_MS = 10 * 60 * 1000;
+// Stay well clear of MongoDB's 16MB document limit
+const MAX_ARCHIVE_BYTES = 15 * 1024 * 1024;
+const EXPORT_VERSION = 2;
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const toResponse = (dataExport: IDataExport) => ({
+  id: dataExport._id.toString(),
+  status: dataExport.status,
+  format: dataExport.format,
+  size: dataExport.size,
+  error: dataExport.error,
+  completedAt: dataExport.completedAt?.toISOString(),
+  expiresAt: dataExport.expiresAt.toISOString(),
+  createdAt: dataExport.createdAt.toISOString(),
+});
+
+export class DataExportService {
+  /**
+   * Queue an export of everything held about the user. The archive is built
+   * in the background and the user is emailed a download link when it is ready.
+   */
+  async requestExport(userId: string, format: DataExportFormat = 'json') {
+    if (format !== 'json' && format !== 'zip') {
+      throw new AppError('Format must be json or zip', 400);
+    }
+
+    const inProgress = await DataExport.exists({ user: userId, status: { $in: ['pending', 'processing'] } });
+    if (inProgress) {
+      throw new AppError('A data export is already being prepared. We will email you when it is ready.', 409);
+    }
+
+    const latest = await DataExport.findOne({ user: userId, status: 'ready' }).sort({ createdAt: -1 });
+    const nextAllowedAt = latest ? latest.createdAt.getTime() + dataExportConfig.cooldownMs : 0;
+    if (nextAllowedAt > Date.now()) {
+      throw new AppError(
+        'You recently requested a data export. Please use the link we emailed you or try again later.',
+        429,
+        'EXPORT_THROTTLED',
+        (nextAllowedAt - Date.now()) / 1000
+      );
+    }
+
+    const dataExport = await DataExport.create({
+      user: userId,
+      format,
+      expiresAt: new Date(Date.now() + JOB_TTL_MS),
+    });
+
+    this.schedule(dataExport._id.toString());
+
+    return toResponse(dataExport);
+  }
+
+  /**
+   * List a user's recent exports
+   */
+  async listExports(userId: string) {
+    const exports = await DataExport.find({ user: userId }).sort({ createdAt: -1 }).limit(10);
+    return exports.map(toResponse);
+  }
+
+  /**
+   * Resolve a download link token to the archive
+   */
+  async download(token: string): Promise<{ fileName: string; contentType: string; data: Buffer }> {
+    const [exportId, secret] = (token || '').split('.');
+    if (!exportId || !secret || !mongoose.Types.ObjectId.isValid(exportId)) {
+      throw new AppError('Invalid or expired download link', 404);
+    }
+
+    const dataExport = await DataExport.findById(exportId).select('+tokenHash +archive');
+    if (!dataExport || dataExport.status !== 'ready' || !dataExport.tokenHash || !dataExport.archive
+      || dataExport.expiresAt < new Date()) {
+      throw new AppError('Invalid or expired download link', 404);
+    }
+
+    const expected = Buffer.from(dataExport.tokenHash, 'hex');
+    const presented = Buffer.from(hashToken(secret), 'hex');
+    if (!crypto.timingSafeEqual(expected, presented)) {
+      throw new AppError('Invalid or expired download link', 404);
+    }
+
+    const date = dataExport.createdAt.toISOString().slice(0, 10);
+    return dataExport.format === 'zip'
+      ? { fileName: `data-export-${date}.zip`, contentType: 'application/zip', data: dataExport.archive }
+      : { fileName: `data-export-${date}.json`, contentType: 'application/json', data: dataExport.archive };
+  }
+
+  /**
+   * Remove every export belonging to a user
+   */
+  async deleteExports(userId: string): Promise<void> {
+    await DataExport.deleteMany({ user: userId });
+  }
+
+  /**
+   * Pick up jobs that were queued or interrupted before the process started
+   */
+  async resumePendingExports(): Promise<number> {
+    await DataExport.updateMany(
+      { status: 'processing', updatedAt: { $lt: new Date(Date.now() - STALE_JOB_MS) } },
+      { status: 'pending' }
+    );
+
+    const pending = await DataExport.find({ status: 'pending' }).select('_id');
+    pending.forEach(dataExport => this.schedule(dataExport._id.toString()));
+    return pending.length;
+  }
+
+  /**
+   * Build the archive for one job and email the download link
+   */
+  async processExport(exportId: string): Promise<void> {
+    // Claim the job so it is only processed once
+    const dataExport = await DataExport.findOneAndUpdate(
+      { _id: exportId, status: 'pending' },
+      { status: 'processing' },
+      { new: true }
+    );
+    if (!dataExport) return;
+
+    try {
+      const user = await User.findById(dataExport.user);
+      if (!user) {
+        await DataExport.deleteOne({ _id: dataExport._id });
+        return;
+      }
+
+      const json = JSON.stringify(await this.collectUserData(user._id.toString()), null, 2);
+      const archive = dataExport.format === 'zip'
+        ? createZip([{ name: 'data.json', data: json }])
+        : Buffer.from(json, 'utf8');
+
+      if (archive.length > MAX_ARCHIVE_BYTES) {
+        throw new Error('Export is too large to store');
+      }
+
+      const secret = crypto.randomBytes(32).toString('base64url');
+      const expiresAt = new Date(Date.now() + dataExportConfig.linkTtlMs);
+
+      await DataExport.updateOne({ _id: dataExport._id }, {
+        status: 'ready',
+        tokenHash: hashToken(secret),
+        archive,
+        size: archive.length,
+        completedAt: new Date(),
+        expiresAt,
+      });
+
+      const appUrl = process.env.APP_URL || 'http://localhost:5173';
+      const link = `${appUrl}/account/export?token=${encodeURIComponent(`${dataExport._id}.${secret}`)}`;
+      await emailService.sendDataExportReady(user.email, user.name, link, expiresAt);
+    } catch (error: any) {
+      console.error('❌ Data export failed:', exportId, error.message);
+      await DataExport.updateOne({ _id: dataExport._id }, { status: 'failed', error: 'Export could not be generated' });
+    }
+  }
+
+  /**
+   * Gather everything held about a user, minus secrets
+   */
+  async collectUserData(userId: string) {
+    const user = await User.findById(userId).select('+pendingEmail +previousEmail');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [sessions, apiKeys, events, videos] = await Promise.all([
+      Session.find({ user: user._id }).sort({ createdAt: -1 }),
+      ApiKey.find({ user: user._id }).sort({ createdAt: -1 }),
+      AuditEvent.find({ user: user._id }).sort({ createdAt: -1 }),
+      videoService.listAllForUser(userId),
+    ]);
+
+    return {
+      exportVersion: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      profile: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        plan: user.plan,
+        roles: user.roles || [],
+        isEmailVerified: user.isEmailVerified,
+        status: user.status || 'active',
+        suspendedUntil: user.suspendedUntil?.toISOString(),
+        statusReason: user.statusReason,
+        twoFactorEnabled: user.twoFactorEnabled || false,
+        lastLogin: user.lastLogin?.toISOString(),
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString(),
+      },
+      connectedPlatforms: user.connectedPlatforms || [],
+      emailHistory: {
+        current: user.email,
+        previous: user.previousEmail,
+        pending: user.pendingEmail,
+      },
+      loginHistory: events
+        .filter(event => event.type === 'login')
+        .map(event => ({
+          outcome: event.outcome,
+          method: event.metadata?.method,
+          ip: event.ip,
+          userAgent: event.userAgent,
+          reason: event.reason,
+          at: event.createdAt.toISOString(),
+        })),
+      securityEvents: events.map(event => ({
+        type: event.type,
+        outcome: event.outcome,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        at: event.createdAt.toISOString(),
+      })),
+      sessions: sessions.map(session => ({
+        device: session.device,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        revokedAt: session.revokedAt?.toISOString(),
+        revokedReason: session.revokedReason,
+      })),
+      apiKeys: apiKeys.map(apiKey => ({
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+        lastUsedIp: apiKey.lastUsedIp,
+        createdAt: apiKey.createdAt.toISOString(),
+        revokedAt: apiKey.revokedAt?.toISOString(),
+      })),
+      videos: {
+        generatedCount: user.videosGenerated || 0,
+        items: videos.map(video => ({
+          prompt: video.prompt,
+          template: video.template,
+          resolution: video.resolution,
+          aspectRatio: video.aspectRatio,
+          durationSeconds: video.durationSeconds,
+          status: video.status,
+          workspaceId: video.workspaceId,
+          outputUrl: video.output?.url,
+          createdAt: video.createdAt,
+          completedAt: video.completedAt,
+        })),
+      },
+    };
+  }
+
+  private schedule(exportId: string): void {
+    setImmediate(() => {
+      this.processExport(exportId).catch(error => {
+        console.error('❌ Data export failed:', exportId, error.message);
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const dataExportService = new DataExportService();
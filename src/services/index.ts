@@ -4,8 +4,25 @@
  */
 
 export { authService, AuthService } from './auth.service';
+export { sessionService, SessionService } from './session.service';
+export { mfaService, MfaService } from './mfa.service';
+export { oneTimeCodeService, OneTimeCodeService } from './oneTimeCode.service';
+export { loginThrottleService, LoginThrottleService } from './loginThrottle.service';
+export { apiKeyService, ApiKeyService } from './apiKey.service';
+export { roleService, RoleService } from './role.service';
+export { adminService, AdminService } from './admin.service';
+export { accountStatusService, AccountStatusService } from './accountStatus.service';
+export { auditService, AuditService } from './audit.service';
+export { dataExportService, DataExportService } from './dataExport.service';
+export { accountDeletionService, AccountDeletionService } from './accountDeletion.service';
+export { workspaceService, WorkspaceService } from './workspace.service';
+export { videoService, VideoService } from './video.service';
+export { videoProviderRegistry, VideoProviderRegistry, MockVideoProvider } from './videoProvider.service';
+export { videoEventService, VideoEventService, MemoryVideoEventBus, MongoVideoEventBus } from './videoEvents.service';
+export { jobQueueService, JobQueueService, PermanentJobError } from './jobQueue.service';
+export { passwordPolicyService, PasswordPolicyService, LocalBreachCorpusChecker } from './passwordPolicy.service';
+export { revocationService, RevocationService, MemoryRevocationStore, MongoRevocationStore } from './revocation.service';
 
 // Future services can be added here:
 // export { userService } from './user.service';
-// export { videoService } from './video.service';
 // export { paymentService } from './payment.service';
@@ -0,0 +1,192 @@
+import Job from '../models/Job';
+import { jobQueueConfig } from '../config/jobQueue';
+import { IJob } from '../types';
+
+export interface EnqueueOptions {
+  // Run no earlier than this (scheduled jobs)
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Thrown by a job handler for failures that retrying cannot fix. The job
+ * goes straight to the dead-letter state.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Delay before retry n: base * 2^(n-1), capped, plus up to 10% jitter so
+ * jobs that failed together do not all retry together
+ */
+export const getBackoffDelay = (attempt: number): number => {
+  const delay = Math.min(
+    jobQueueConfig.backoffMaxMs,
+    jobQueueConfig.backoffBaseMs * 2 ** Math.max(0, attempt - 1)
+  );
+  return Math.round(delay * (1 + Math.random() * 0.1));
+};
+
+/**
+ * MongoDB-backed job queue. A worker claims a job by leasing it until
+ * lockedUntil; if the worker dies the lease runs out and another worker
+ * claims it again. Every claim counts as an attempt, and once maxAttempts is
+ * used up the job is dead-lettered instead of retried.
+ */
+export class JobQueueService {
+  /**
+   * Add a job to a named queue
+   */
+  async enqueue(queue: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<IJob> {
+    const runAt = options.runAt ?? new Date(Date.now() + (options.delayMs || 0));
+
+    return Job.create({
+      queue,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts ?? jobQueueConfig.maxAttempts,
+    });
+  }
+
+  /**
+   * Lease the next due job on a queue. Jobs whose lease ran out are claimed
+   * again as long as they have attempts left.
+   */
+  async claim(queue: string, workerId: string, visibilityTimeoutMs: number = jobQueueConfig.visibilityTimeoutMs) {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+      {
+        queue,
+        $or: [
+          { status: 'pending', runAt: { $lte: now } },
+          { status: 'running', lockedUntil: { $lte: now } },
+        ],
+        $expr: { $lt: ['$attempts', '$maxAttempts'] },
+      },
+      {
+        $set: { status: 'running', lockedBy: workerId, lockedUntil: new Date(now.getTime() + visibilityTimeoutMs) },
+        $inc: { attempts: 1 },
+      },
+      { new: true, sort: { runAt: 1 } }
+    );
+  }
+
+  /**
+   * Extend a lease. Returns false if the worker no longer holds it.
+   */
+  async renewLease(jobId: string, workerId: string, visibilityTimeoutMs: number = jobQueueConfig.visibilityTimeoutMs): Promise<boolean> {
+    const result = await Job.updateOne(
+      { _id: jobId, status: 'running', lockedBy: workerId },
+      { lockedUntil: new Date(Date.now() + visibilityTimeoutMs) }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Mark a leased job done
+   */
+  async complete(jobId: string, workerId: string): Promise<boolean> {
+    const result = await Job.updateOne(
+      { _id: jobId, status: 'running', lockedBy: workerId },
+      { $set: { status: 'completed', completedAt: new Date() }, $unset: { lockedBy: 1, lockedUntil: 1 } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry with backoff, or dead-letter
+   * the job once its attempts are used up. Returns null if the worker no
+   * longer holds the lease.
+   */
+  async fail(jobId: string, workerId: string, error: unknown) {
+    const filter = { _id: jobId, status: 'running', lockedBy: workerId };
+    const job = await Job.findOne(filter);
+    if (!job) return null;
+
+    const lastError = (error instanceof Error ? error.message : String(error)).substring(0, 1000);
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+
+    return Job.findOneAndUpdate(
+      filter,
+      {
+        $set: dead
+          ? { status: 'dead', deadAt: new Date(), lastError }
+          : { status: 'pending', runAt: new Date(Date.now() + getBackoffDelay(job.attempts)), lastError },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Hand a leased job back without using up an attempt (shutdown)
+   */
+  async release(jobId: string, workerId: string): Promise<boolean> {
+    const result = await Job.updateOne(
+      { _id: jobId, status: 'running', lockedBy: workerId },
+      {
+        $set: { status: 'pending', runAt: new Date() },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+        $inc: { attempts: -1 },
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Dead-letter jobs whose last allowed attempt lost its lease (the worker
+   * crashed or hung), returning them so their owners can be told
+   */
+  async deadLetterExpired(queue: string): Promise<IJob[]> {
+    const deadJobs: IJob[] = [];
+
+    for (;;) {
+      const job = await Job.findOneAndUpdate(
+        {
+          queue,
+          status: 'running',
+          lockedUntil: { $lte: new Date() },
+          $expr: { $gte: ['$attempts', '$maxAttempts'] },
+        },
+        {
+          $set: { status: 'dead', deadAt: new Date(), lastError: 'Lease expired on the final attempt' },
+          $unset: { lockedBy: 1, lockedUntil: 1 },
+        },
+        { new: true }
+      );
+      if (!job) return deadJobs;
+      deadJobs.push(job);
+    }
+  }
+
+  /**
+   * Give a dead job a fresh set of attempts
+   */
+  async requeue(jobId: string): Promise<boolean> {
+    const result = await Job.updateOne(
+      { _id: jobId, status: 'dead' },
+      { $set: { status: 'pending', attempts: 0, runAt: new Date() }, $unset: { deadAt: 1 } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Job counts by status for a queue
+   */
+  async getStats(queue: string): Promise<Record<string, number>> {
+    const counts = await Job.aggregate<{ _id: string; count: number }>([
+      { $match: { queue } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    return Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+  }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,222 @@
+import LoginAttempt from '../models/LoginAttempt';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { emailService } from '../utils/email.service';
+import { loginThrottleConfig, magicLinkConfig, mfaThrottleConfig } from '../config/security';
+import { MFA_TOKEN_EXPIRE_SECONDS } from '../utils/jwt';
+
+type ThrottleConfig = typeof loginThrottleConfig;
+
+const accountKey = (email: string): string => `account:${email.toLowerCase()}`;
+const ipAccountKey = (email: string, ip: string): string => `ip-account:${ip}:${email.toLowerCase()}`;
+const magicLinkKey = (email: string): string => `magic-link:${email.toLowerCase()}`;
+const mfaAccountKey = (userId: string): string => `mfa-account:${userId}`;
+const mfaChallengeKey = (challengeId: string): string => `mfa-challenge:${challengeId}`;
+
+export class LoginThrottleService {
+  constructor(private config: ThrottleConfig = loginThrottleConfig) {}
+
+  /**
+   * Reject the attempt if the account or IP + account pair is locked or backing off
+   */
+  async assertAllowed(email: string, ip?: string): Promise<void> {
+    const now = new Date();
+    const { lockedUntil, nextAllowedAt } = await this.getRestrictions(this.getKeys(email, ip));
+
+    if (lockedUntil > now.getTime()) {
+      throw new AppError(
+        'Account temporarily locked due to too many failed login attempts. Please try again later.',
+        423,
+        'ACCOUNT_LOCKED',
+        (lockedUntil - now.getTime()) / 1000
+      );
+    }
+
+    if (nextAllowedAt > now.getTime()) {
+      throw new AppError(
+        'Too many failed login attempts. Please wait before trying again.',
+        429,
+        'LOGIN_THROTTLED',
+        (nextAllowedAt - now.getTime()) / 1000
+      );
+    }
+  }
+
+  /**
+   * Record a failed attempt, applying backoff and locking once thresholds are hit
+   */
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    const accountLocked = await this.increment(accountKey(email), this.config.maxAccountFailures);
+    if (ip) {
+      await this.increment(ipAccountKey(email, ip), this.config.maxIpAccountFailures);
+    }
+
+    if (accountLocked && this.config.notifyOnLockout) {
+      const user = await User.findOne({ email });
+      if (user) {
+        const unlockAt = new Date(Date.now() + this.config.lockoutMs);
+        await emailService.sendAccountLockedEmail(user.email, user.name, unlockAt);
+      }
+    }
+  }
+
+  /**
+   * Clear counters after a successful login
+   */
+  async recordSuccess(email: string, ip?: string): Promise<void> {
+    await LoginAttempt.deleteMany({ key: { $in: this.getKeys(email, ip) } });
+  }
+
+  /**
+   * Reject a second-factor attempt if the challenge has used up its guesses
+   * or the account is backing off after failed codes
+   */
+  async assertMfaAllowed(userId: string, challengeId: string): Promise<void> {
+    const now = Date.now();
+
+    const challenge = await LoginAttempt.findOne({ key: mfaChallengeKey(challengeId), expiresAt: { $gt: new Date(now) } });
+    if (challenge && challenge.failures >= mfaThrottleConfig.maxChallengeFailures) {
+      throw new AppError('This sign-in attempt is no longer valid. Please log in again.', 401, 'MFA_CHALLENGE_EXPIRED');
+    }
+
+    const { lockedUntil, nextAllowedAt } = await this.getRestrictions([mfaAccountKey(userId)]);
+    if (lockedUntil > now) {
+      throw new AppError(
+        'Two-factor authentication temporarily locked due to too many failed attempts. Please try again later.',
+        423,
+        'MFA_LOCKED',
+        (lockedUntil - now) / 1000
+      );
+    }
+    if (nextAllowedAt > now) {
+      throw new AppError(
+        'Too many failed authentication codes. Please wait before trying again.',
+        429,
+        'MFA_THROTTLED',
+        (nextAllowedAt - now) / 1000
+      );
+    }
+  }
+
+  /**
+   * Record a wrong second-factor code against the challenge and the account
+   */
+  async recordMfaFailure(userId: string, challengeId: string): Promise<void> {
+    await LoginAttempt.findOneAndUpdate(
+      { key: mfaChallengeKey(challengeId) },
+      {
+        $inc: { failures: 1 },
+        $setOnInsert: { expiresAt: new Date(Date.now() + MFA_TOKEN_EXPIRE_SECONDS * 1000) },
+      },
+      { upsert: true }
+    );
+    await this.increment(mfaAccountKey(userId), this.config.maxAccountFailures);
+  }
+
+  /**
+   * Clear the account's counter and retire the challenge so it cannot be used again
+   */
+  async recordMfaSuccess(userId: string, challengeId: string): Promise<void> {
+    await LoginAttempt.deleteMany({ key: mfaAccountKey(userId) });
+    await LoginAttempt.updateOne(
+      { key: mfaChallengeKey(challengeId) },
+      {
+        $set: { failures: mfaThrottleConfig.maxChallengeFailures },
+        $setOnInsert: { expiresAt: new Date(Date.now() + MFA_TOKEN_EXPIRE_SECONDS * 1000) },
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Count a passwordless sign-in email against the per-address quota.
+   * Applies whether or not the account exists, so throttling reveals nothing.
+   */
+  async consumeMagicLinkQuota(email: string): Promise<void> {
+    const now = Date.now();
+    const key = magicLinkKey(email);
+
+    await LoginAttempt.deleteMany({ key, expiresAt: { $lte: new Date(now) } });
+
+    const attempt = await LoginAttempt.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $setOnInsert: { expiresAt: new Date(now + magicLinkConfig.windowMs) },
+      },
+      { upsert: true, new: true }
+    );
+
+    if (attempt.failures > magicLinkConfig.maxRequests) {
+      throw new AppError(
+        'Too many sign-in links requested. Please wait before trying again.',
+        429,
+        'MAGIC_LINK_THROTTLED',
+        (attempt.expiresAt.getTime() - now) / 1000
+      );
+    }
+  }
+
+  /**
+   * Increment one counter. Returns true if this failure triggered a new lockout.
+   */
+  private async increment(key: string, maxFailures: number): Promise<boolean> {
+    const now = Date.now();
+
+    // Drop counters whose window already passed but the TTL monitor has not removed yet
+    await LoginAttempt.deleteMany({ key, expiresAt: { $lte: new Date(now) } });
+
+    const attempt = await LoginAttempt.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $max: { expiresAt: new Date(now + this.config.failureWindowMs) },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    if (attempt.failures >= maxFailures) {
+      const alreadyLocked = !!attempt.lockedUntil && attempt.lockedUntil.getTime() > now;
+      const lockedUntil = new Date(now + this.config.lockoutMs);
+
+      // Start the counter over once the lockout ends
+      await LoginAttempt.updateOne(
+        { _id: attempt._id },
+        { lockedUntil, failures: 0, $max: { expiresAt: lockedUntil } }
+      );
+
+      return !alreadyLocked;
+    }
+
+    if (attempt.failures > this.config.freeAttempts) {
+      const exponent = attempt.failures - this.config.freeAttempts - 1;
+      const delay = Math.min(this.config.backoffBaseMs * 2 ** exponent, this.config.backoffMaxMs);
+      await LoginAttempt.updateOne({ _id: attempt._id }, { nextAllowedAt: new Date(now + delay) });
+    }
+
+    return false;
+  }
+
+  /**
+   * Latest lockout end and backoff end across the given counters (ms, 0 if none)
+   */
+  private async getRestrictions(keys: string[]): Promise<{ lockedUntil: number; nextAllowedAt: number }> {
+    const attempts = await LoginAttempt.find({ key: { $in: keys }, expiresAt: { $gt: new Date() } });
+
+    let lockedUntil = 0;
+    let nextAllowedAt = 0;
+    for (const attempt of attempts) {
+      lockedUntil = Math.max(lockedUntil, attempt.lockedUntil?.getTime() || 0);
+      nextAllowedAt = Math.max(nextAllowedAt, attempt.nextAllowedAt?.getTime() || 0);
+    }
+
+    return { lockedUntil, nextAllowedAt };
+  }
+
+  private getKeys(email: string, ip?: string): string[] {
+    return ip ? [accountKey(email), ipAccountKey(email, ip)] : [accountKey(email)];
+  }
+}
+
+// Export singleton instance
+export const loginThrottleService = new LoginThrottleService();
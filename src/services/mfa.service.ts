@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { IUser } from '../types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string): string => {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
+
+export class MfaService {
+  /**
+   * Start TOTP enrollment - generates a pending secret until confirmed
+   */
+  async beginEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    const issuer = process.env.APP_NAME || 'AI VideoGen';
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    // Bodies are not schema-checked, so a number here would otherwise throw
+    if (typeof code !== 'string') {
+      throw new AppError('Authentication code must be a string', 400);
+    }
+
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new AppError('No two-factor setup in progress. Please start setup again.', 400);
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    const { plain, hashed } = this.generateRecoveryCodes();
+
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashed;
+    user.twoFactorLastUsedStep = step;
+    await user.save();
+
+    return { recoveryCodes: plain };
+  }
+
+  /**
+   * Disable two-factor authentication (requires the account password)
+   */
+  async disable(userId: string, password: string): Promise<void> {
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new AppError('Password is incorrect', 400);
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+  }
+
+  /**
+   * Replace all recovery codes (requires the account password)
+   */
+  async regenerateRecoveryCodes(userId: string, password: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new AppError('Password is incorrect', 400);
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    const { plain, hashed } = this.generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = hashed;
+    await user.save();
+
+    return { recoveryCodes: plain };
+  }
+
+  /**
+   * Verify the second factor for a user with either a TOTP code or a recovery code.
+   * TOTP codes cannot be replayed and recovery codes are consumed on use.
+   */
+  async verifySecondFactor(userId: string, factor: { code?: string; recoveryCode?: string }): Promise<IUser> {
+    // Bodies are not schema-checked, so a number or array here would otherwise throw
+    if ([factor.code, factor.recoveryCode].some(value => value !== undefined && typeof value !== 'string')) {
+      throw new AppError('Authentication code and recovery code must be strings', 400);
+    }
+
+    const user = await User.findById(userId).select('+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep');
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new AppError('Invalid authentication code', 401);
+    }
+
+    if (factor.code) {
+      const step = verifyTotp(user.twoFactorSecret, factor.code);
+      if (step === null) {
+        throw new AppError('Invalid authentication code', 401);
+      }
+
+      // Only one request can move the last used step forward, so a code works once
+      const updated = await User.findOneAndUpdate(
+        {
+          _id: userId,
+          twoFactorEnabled: true,
+          $or: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { $lt: step } }],
+        },
+        { twoFactorLastUsedStep: step },
+        { new: true }
+      );
+      if (!updated) {
+        throw new AppError('Invalid authentication code', 401);
+      }
+      return updated;
+    }
+
+    if (factor.recoveryCode) {
+      const presented = Buffer.from(hashRecoveryCode(factor.recoveryCode));
+      const codes = user.twoFactorRecoveryCodes || [];
+      const match = codes.find(hash => crypto.timingSafeEqual(Buffer.from(hash), presented));
+
+      // Only the request whose $pull removes the code gets to use it
+      const updated = match
+        ? await User.findOneAndUpdate(
+          { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: match },
+          { $pull: { twoFactorRecoveryCodes: match } },
+          { new: true }
+        )
+        : null;
+      if (!updated) {
+        throw new AppError('Invalid recovery code', 401);
+      }
+      return updated;
+    }
+
+    throw new AppError('Authentication code or recovery code is required', 400);
+  }
+
+  /**
+   * Generate one-time recovery codes (plaintext for the user, hashes for storage)
+   */
+  private generateRecoveryCodes(): { plain: string[]; hashed: string[] } {
+    const plain = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+    });
+
+    return {
+      plain,
+      hashed: plain.map(hashRecoveryCode),
+    };
+  }
+}
+
+// Export singleton instance
+export const mfaService = new MfaService();
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import OneTimeCode from '../models/OneTimeCode';
+import { AppError } from '../middleware/errorHandler';
+import { OneTimeCodeFormat, OneTimeCodePurpose } from '../types';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+let ephemeralCodeHashSecret: string | null = null;
+
+/**
+ * Key for hashing codes. Read lazily so values from dotenv are picked up.
+ */
+const getCodeHashSecret = (): string => {
+  const secret = process.env.OTP_HASH_SECRET || process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('OTP_HASH_SECRET (or JWT_SECRET) must be set in production');
+  }
+
+  if (!ephemeralCodeHashSecret) {
+    console.warn('⚠️  OTP_HASH_SECRET is not set - using an ephemeral secret. Codes will not survive a restart.');
+    ephemeralCodeHashSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return ephemeralCodeHashSecret;
+};
+
+const getDefaultMaxAttempts = (): number => parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+
+const CODE_LABELS: Record<OneTimeCodePurpose, string> = {
+  email_verification: 'verification code',
+  password_reset: 'reset code',
+  magic_link: 'sign-in link',
+  magic_code: 'sign-in code',
+  email_change: 'confirmation code',
+  email_change_undo: 'undo link',
+  account_restore: 'restore link',
+};
+
+/**
+ * Keyed hash so a leaked database dump cannot be brute-forced offline
+ */
+const hashCode = (codeId: string, code: string): string => {
+  return crypto.createHmac('sha256', getCodeHashSecret()).update(`${codeId}:${code}`).digest('hex');
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+export class OneTimeCodeService {
+  /**
+   * Generate a random numeric code using a CSPRNG
+   */
+  generateCode(length: number = 6): string {
+    return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+  }
+
+  /**
+   * Generate a random URL-safe token for links
+   */
+  generateToken(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString('base64url');
+  }
+
+  /**
+   * Issue a new code for a user, replacing any previous code for the same purpose
+   */
+  async issue(
+    userId: string,
+    purpose: OneTimeCodePurpose,
+    options: { ttlMs?: number; maxAttempts?: number; length?: number; format?: OneTimeCodeFormat } = {}
+  ): Promise<string> {
+    const format = options.format || 'numeric';
+    const code = format === 'token' ? this.generateToken() : this.generateCode(options.length);
+
+    await OneTimeCode.deleteMany({ user: userId, purpose });
+
+    const record = new OneTimeCode({
+      user: userId,
+      purpose,
+      format,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || getDefaultMaxAttempts(),
+      expiresAt: new Date(Date.now() + (options.ttlMs || DEFAULT_TTL_MS)),
+    });
+    record.codeHash = hashCode(record._id.toString(), code);
+    await record.save();
+
+    return code;
+  }
+
+  /**
+   * Verify a code. For numeric codes every check counts against the attempt
+   * limit and the code is burned once the limit is reached. Pass
+   * `consume: false` to keep a correct code alive for a follow-up step.
+   */
+  async verify(
+    userId: string,
+    purpose: OneTimeCodePurpose,
+    code: string,
+    options: { consume?: boolean } = {}
+  ): Promise<void> {
+    const label = CODE_LABELS[purpose];
+    const consume = options.consume !== false;
+
+    const current = await OneTimeCode.findOne({ user: userId, purpose }).select('format');
+    if (current?.format === 'token') {
+      return this.verifyToken(userId, purpose, code, consume);
+    }
+
+    // Reserve an attempt atomically before comparing, so concurrent guesses cannot exceed the limit
+    const record = await OneTimeCode.findOneAndUpdate(
+      { user: userId, purpose, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    ).select('+codeHash');
+
+    if (!record) {
+      await OneTimeCode.deleteMany({ user: userId, purpose });
+      throw new AppError(`Invalid or expired ${label}. Please request a new one.`, 400);
+    }
+
+    if (record.expiresAt < new Date()) {
+      await OneTimeCode.deleteOne({ _id: record._id });
+      throw new AppError(`${capitalize(label)} has expired. Please request a new one.`, 400);
+    }
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const presented = Buffer.from(hashCode(record._id.toString(), String(code || '')), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, presented)) {
+      const remaining = record.maxAttempts - record.attempts;
+
+      if (remaining <= 0) {
+        await OneTimeCode.deleteOne({ _id: record._id });
+        throw new AppError(`Too many failed attempts. Please request a new ${label}.`, 400);
+      }
+
+      throw new AppError(`Invalid ${label}. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`, 400);
+    }
+
+    if (consume) {
+      const { deletedCount } = await OneTimeCode.deleteOne({ _id: record._id });
+      if (deletedCount === 0) {
+        throw new AppError(`Invalid or expired ${label}. Please request a new one.`, 400);
+      }
+    }
+  }
+
+  /**
+   * Check a link token. Guessing a 256-bit secret is hopeless, so wrong
+   * guesses are not counted - otherwise anyone who knows the user id could
+   * burn the link before its owner clicks it.
+   */
+  private async verifyToken(userId: string, purpose: OneTimeCodePurpose, token: string, consume: boolean): Promise<void> {
+    const label = CODE_LABELS[purpose];
+
+    const record = await OneTimeCode.findOne({ user: userId, purpose, expiresAt: { $gt: new Date() } }).select('+codeHash');
+    const matches = !!record && crypto.timingSafeEqual(
+      Buffer.from(record.codeHash, 'hex'),
+      Buffer.from(hashCode(record._id.toString(), String(token || '')), 'hex')
+    );
+    if (!record || !matches) {
+      throw new AppError(`Invalid or expired ${label}. Please request a new one.`, 400);
+    }
+
+    if (consume) {
+      const { deletedCount } = await OneTimeCode.deleteOne({ _id: record._id });
+      if (deletedCount === 0) {
+        throw new AppError(`Invalid or expired ${label}. Please request a new one.`, 400);
+      }
+    }
+  }
+
+  /**
+   * Use up a code already checked with `consume: false`. Fails if another
+   * request used it first.
+   */
+  async consume(userId: string, purpose: OneTimeCodePurpose): Promise<void> {
+    const { deletedCount } = await OneTimeCode.deleteOne({ user: userId, purpose });
+    if (deletedCount === 0) {
+      throw new AppError(`Invalid or expired ${CODE_LABELS[purpose]}. Please request a new one.`, 400);
+    }
+  }
+
+  /**
+   * Discard any outstanding code for a user and purpose
+   */
+  async revoke(userId: string, purpose: OneTimeCodePurpose): Promise<void> {
+    await OneTimeCode.deleteMany({ user: userId, purpose });
+  }
+}
+
+// Export singleton instance
+export const oneTimeCodeService = new OneTimeCodeService();
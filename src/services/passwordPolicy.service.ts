@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { validatePassword, PasswordContext } from '../utils/validation';
+import { ValidationFailedError } from '../middleware/errorHandler';
+import { passwordPolicyConfig } from '../config/security';
+import { BreachedPasswordChecker, PasswordPolicy, ValidationError } from '../types';
+
+// Range files kept in memory - each is a few KB to a few hundred KB
+const RANGE_CACHE_SIZE = 256;
+
+/**
+ * Offline breached-password corpus in the k-anonymity range format.
+ *
+ * The directory holds one file per 5-character SHA-1 prefix, named `<PREFIX>` or
+ * `<PREFIX>.txt`, each listing `<SUFFIX>:<COUNT>` lines - the same layout served by
+ * the Pwned Passwords range API, so a downloaded dump can be used as is.
+ */
+export class LocalBreachCorpusChecker implements BreachedPasswordChecker {
+  private ranges = new Map<string, Set<string>>();
+
+  constructor(private directory: string) {}
+
+  async isBreached(password: string): Promise<boolean> {
+    const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    const suffixes = await this.loadRange(hash.slice(0, 5));
+    return suffixes.has(hash.slice(5));
+  }
+
+  private async loadRange(prefix: string): Promise<Set<string>> {
+    const cached = this.ranges.get(prefix);
+    if (cached) return cached;
+
+    const suffixes = new Set<string>();
+    const content = await this.readRangeFile(prefix);
+    content?.split(/\r?\n/).forEach(line => {
+      const [suffix, count] = line.trim().split(':');
+      // Padding entries in the range format carry a count of 0
+      if (suffix && count !== '0') suffixes.add(suffix.toUpperCase());
+    });
+
+    if (this.ranges.size >= RANGE_CACHE_SIZE) {
+      this.ranges.delete(this.ranges.keys().next().value as string);
+    }
+    this.ranges.set(prefix, suffixes);
+    return suffixes;
+  }
+
+  private async readRangeFile(prefix: string): Promise<string | null> {
+    for (const name of [prefix, `${prefix}.txt`]) {
+      try {
+        return await fs.readFile(path.join(this.directory, name), 'utf8');
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Used when no corpus is configured
+ */
+class NoopBreachChecker implements BreachedPasswordChecker {
+  async isBreached(): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * Pick the breach checker from PASSWORD_BREACH_CORPUS_DIR
+ */
+const createBreachChecker = (): BreachedPasswordChecker => {
+  const directory = process.env.PASSWORD_BREACH_CORPUS_DIR;
+  return directory ? new LocalBreachCorpusChecker(directory) : new NoopBreachChecker();
+};
+
+export class PasswordPolicyService {
+  constructor(
+    private checker: BreachedPasswordChecker = createBreachChecker(),
+    private policy: PasswordPolicy = passwordPolicyConfig
+  ) {}
+
+  /**
+   * Swap the breached-password checker (e.g. for tests or a hosted corpus)
+   */
+  setBreachChecker(checker: BreachedPasswordChecker): void {
+    this.checker = checker;
+  }
+
+  /**
+   * Check a password against every rule in the policy, including the breach corpus
+   */
+  async validate(password: string, context: PasswordContext = {}, field: string = 'password'): Promise<ValidationError[]> {
+    const errors = validatePassword(password, context, field, this.policy);
+    if (!password || !this.policy.checkBreached) return errors;
+
+    try {
+      if (await this.checker.isBreached(password)) {
+        errors.push({
+          field,
+          message: 'This password has appeared in a data breach. Please choose a different one',
+        });
+      }
+    } catch (error: any) {
+      // An unreadable corpus should not lock everyone out of setting a password
+      console.error('❌ Breached password check failed:', error.message);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Throw a ValidationFailedError listing every broken rule
+   */
+  async assertValid(password: string, context: PasswordContext = {}, field: string = 'password'): Promise<void> {
+    const errors = await this.validate(password, context, field);
+    if (errors.length > 0) {
+      throw new ValidationFailedError(errors, errors.length === 1 ? errors[0].message : 'Password does not meet the password policy');
+    }
+  }
+}
+
+// Export singleton instance
+export const passwordPolicyService = new PasswordPolicyService();
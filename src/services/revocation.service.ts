@@ -0,0 +1,103 @@
+import RevokedToken from '../models/RevokedToken';
+import User from '../models/User';
+import { JWTPayload, TokenRevocationStore } from '../types';
+
+/**
+ * In-memory revocation store (single process, lost on restart)
+ */
+export class MemoryRevocationStore implements TokenRevocationStore {
+  private revoked = new Map<string, number>();
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    this.prune();
+    this.revoked.set(jti, expiresAt.getTime());
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.revoked.get(jti);
+    if (expiresAt === undefined) return false;
+
+    if (expiresAt <= Date.now()) {
+      this.revoked.delete(jti);
+      return false;
+    }
+
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.revoked) {
+      if (expiresAt <= now) this.revoked.delete(jti);
+    }
+  }
+}
+
+/**
+ * MongoDB revocation store (shared across instances, TTL-indexed)
+ */
+export class MongoRevocationStore implements TokenRevocationStore {
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    await RevokedToken.updateOne(
+      { jti },
+      { $setOnInsert: { jti, expiresAt } },
+      { upsert: true }
+    );
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const entry = await RevokedToken.exists({ jti, expiresAt: { $gt: new Date() } });
+    return !!entry;
+  }
+}
+
+/**
+ * Pick the revocation backend from TOKEN_REVOCATION_STORE (memory | mongo)
+ */
+const createRevocationStore = (): TokenRevocationStore => {
+  switch (process.env.TOKEN_REVOCATION_STORE) {
+    case 'memory':
+      return new MemoryRevocationStore();
+    default:
+      return new MongoRevocationStore();
+  }
+};
+
+export class RevocationService {
+  constructor(private store: TokenRevocationStore = createRevocationStore()) {}
+
+  /**
+   * Swap the backing store (e.g. for tests or a shared cache)
+   */
+  setStore(store: TokenRevocationStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Revoke a single token until its natural expiry
+   */
+  async revokeToken(payload: JWTPayload): Promise<void> {
+    if (!payload.jti) return;
+
+    const expiresAt = payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + 24 * 60 * 60 * 1000);
+    await this.store.revoke(payload.jti, expiresAt);
+  }
+
+  /**
+   * Check whether a token has been revoked
+   */
+  async isRevoked(payload: JWTPayload): Promise<boolean> {
+    if (!payload.jti) return false;
+    return this.store.isRevoked(payload.jti);
+  }
+
+  /**
+   * Invalidate every outstanding token for a user by bumping their token version
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+  }
+}
+
+// Export singleton instance
+export const revocationService = new RevocationService();
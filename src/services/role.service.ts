@@ -0,0 +1,219 @@
+import mongoose from 'mongoose';
+import Role from '../models/Role';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { BUILT_IN_ROLES, hasPermission, isValidPermission } from '../config/permissions';
+import { IRole } from '../types';
+
+// Custom role definitions change rarely - cache them briefly to keep permission checks off the database
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+const toResponse = (role: IRole) => ({
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+  builtIn: false,
+  createdAt: role.createdAt.toISOString(),
+  updatedAt: role.updatedAt.toISOString(),
+});
+
+export class RoleService {
+  private cache: { roles: Map<string, string[]>; loadedAt: number } | null = null;
+
+  /**
+   * List built-in and custom roles
+   */
+  async listRoles() {
+    const customRoles = await Role.find().sort({ name: 1 });
+
+    return [
+      ...Object.entries(BUILT_IN_ROLES).map(([name, role]) => ({
+        name,
+        description: role.description,
+        permissions: role.permissions,
+        builtIn: true,
+      })),
+      ...customRoles.map(toResponse),
+    ];
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(name: string, permissions: string[], description?: string) {
+    const roleName = (name || '').trim().toLowerCase();
+    if (BUILT_IN_ROLES[roleName]) {
+      throw new AppError(`'${roleName}' is a built-in role`, 409);
+    }
+
+    if (await Role.exists({ name: roleName })) {
+      throw new AppError(`Role '${roleName}' already exists`, 409);
+    }
+
+    const role = await Role.create({
+      name: roleName,
+      description,
+      permissions: this.validatePermissions(permissions),
+    });
+    this.invalidateCache();
+
+    return toResponse(role);
+  }
+
+  /**
+   * Change a custom role's description or permissions
+   */
+  async updateRole(name: string, updates: { description?: string; permissions?: string[] }) {
+    const role = await this.findCustomRole(name);
+
+    if (updates.description !== undefined) {
+      role.description = updates.description;
+    }
+    if (updates.permissions !== undefined) {
+      role.permissions = this.validatePermissions(updates.permissions);
+    }
+    await role.save();
+    this.invalidateCache();
+
+    return toResponse(role);
+  }
+
+  /**
+   * Delete a custom role and take it away from everyone who holds it
+   */
+  async deleteRole(name: string): Promise<void> {
+    const role = await this.findCustomRole(name);
+
+    await User.updateMany(
+      { roles: role.name },
+      { $pull: { roles: role.name }, $inc: { tokenVersion: 1 } }
+    );
+    await Role.deleteOne({ _id: role._id });
+    this.invalidateCache();
+  }
+
+  /**
+   * Replace a user's roles
+   */
+  async assignRoles(userId: string, roles: string[]) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (!Array.isArray(roles)) {
+      throw new AppError('Roles must be an array', 400);
+    }
+
+    const roleNames = Array.from(new Set(roles.map(role => String(role).trim().toLowerCase())));
+    const definitions = await this.getRoleDefinitions();
+    const unknown = roleNames.filter(role => !definitions.has(role));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown roles: ${unknown.join(', ')}`, 400);
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    // Removing a role bumps tokenVersion in the User pre-save hook
+    user.roles = roleNames;
+    await user.save();
+
+    return {
+      id: user._id.toString(),
+      roles: user.roles,
+      permissions: await this.resolvePermissions(user.roles),
+    };
+  }
+
+  /**
+   * Flatten a set of role names into the permissions they grant
+   */
+  async resolvePermissions(roles: string[] = []): Promise<string[]> {
+    if (roles.length === 0) return [];
+
+    const definitions = await this.getRoleDefinitions();
+    const permissions = new Set<string>();
+    for (const role of roles) {
+      for (const permission of definitions.get(role) || []) {
+        permissions.add(permission);
+      }
+    }
+
+    return Array.from(permissions);
+  }
+
+  /**
+   * Check whether a set of roles grants a permission
+   */
+  async hasPermission(roles: string[], permission: string): Promise<boolean> {
+    return hasPermission(await this.resolvePermissions(roles), permission);
+  }
+
+  /**
+   * Move users from the legacy `isAdmin` flag to the admin role. Safe to run on every start.
+   */
+  async migrateLegacyAdmins(): Promise<number> {
+    const { modifiedCount } = await User.collection.updateMany(
+      { isAdmin: true },
+      { $addToSet: { roles: 'admin' } }
+    );
+    await User.collection.updateMany({ isAdmin: { $exists: true } }, { $unset: { isAdmin: '' } });
+
+    return modifiedCount;
+  }
+
+  /**
+   * Drop cached custom roles (e.g. after another process changed them)
+   */
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  private async getRoleDefinitions(): Promise<Map<string, string[]>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < ROLE_CACHE_TTL_MS) {
+      return this.cache.roles;
+    }
+
+    const roles = new Map<string, string[]>();
+    for (const role of await Role.find().lean()) {
+      roles.set(role.name, role.permissions);
+    }
+    for (const [name, role] of Object.entries(BUILT_IN_ROLES)) {
+      roles.set(name, role.permissions);
+    }
+
+    this.cache = { roles, loadedAt: Date.now() };
+    return roles;
+  }
+
+  private async findCustomRole(name: string) {
+    const roleName = (name || '').trim().toLowerCase();
+    if (BUILT_IN_ROLES[roleName]) {
+      throw new AppError('Built-in roles cannot be changed', 400);
+    }
+
+    const role = await Role.findOne({ name: roleName });
+    if (!role) {
+      throw new AppError('Role not found', 404);
+    }
+    return role;
+  }
+
+  private validatePermissions(permissions: string[]): string[] {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      throw new AppError('At least one permission is required', 400);
+    }
+
+    const invalid = permissions.filter(permission => !isValidPermission(permission));
+    if (invalid.length > 0) {
+      throw new AppError(`Invalid permissions: ${invalid.join(', ')}`, 400);
+    }
+
+    return Array.from(new Set(permissions));
+  }
+}
+
+// Export singleton instance
+export const roleService = new RoleService();
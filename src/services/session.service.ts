@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Session from '../models/Session';
+import User from '../models/User';
+import { generateTokens, createJWTPayload, verifyRefreshToken, getTokenExpiration } from '../utils/jwt';
+import { AppError } from '../middleware/errorHandler';
+import { parseUserAgent } from '../utils/request';
+import { roleService } from './role.service';
+import { accountStatusService } from './accountStatus.service';
+import { IUser, RequestContext, SessionRevokeReason } from '../types';
+
+const hashTokenId = (jti: string): string => {
+  return crypto.createHash('sha256').update(jti).digest('hex');
+};
+
+export class SessionService {
+  /**
+   * Start a new session (token family) and issue its first token pair
+   */
+  async startSession(user: IUser, context: RequestContext = {}): Promise<{ accessToken: string; refreshToken: string }> {
+    const sessionId = new mongoose.Types.ObjectId().toString();
+    const refreshTokenId = crypto.randomUUID();
+
+    const permissions = await roleService.resolvePermissions(user.roles);
+    const tokens = generateTokens(createJWTPayload(user, sessionId, permissions), refreshTokenId);
+
+    await Session.create({
+      _id: sessionId,
+      user: user._id,
+      tokenHash: hashTokenId(refreshTokenId),
+      userAgent: context.userAgent?.substring(0, 512),
+      ip: context.ip,
+      device: parseUserAgent(context.userAgent),
+      expiresAt: getTokenExpiration(tokens.refreshToken),
+      lastUsedAt: new Date(),
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Rotate a refresh token. Presenting a token that was already rotated
+   * revokes the whole session, since either the client or an attacker holds a stale copy.
+   */
+  async rotateSession(refreshToken: string, context: RequestContext = {}): Promise<{ accessToken: string; refreshToken: string }> {
+    let decoded;
+    try {
+      decoded = verifyRefreshToken(refreshToken);
+    } catch (error: any) {
+      throw new AppError(error.message, 401);
+    }
+
+    if (!decoded.sid || !decoded.jti) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const session = await Session.findById(decoded.sid).select('+tokenHash');
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new AppError('Session has been revoked. Please log in again.', 401);
+    }
+
+    const presentedHash = hashTokenId(decoded.jti);
+    if (presentedHash !== session.tokenHash) {
+      await this.revokeSession(session._id.toString(), 'reuse_detected');
+      throw new AppError('Refresh token reuse detected. Please log in again.', 401);
+    }
+
+    const user = await User.findById(session.user);
+    if (!user) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    // Every token for this user was invalidated after this one was issued
+    if ((decoded.tokenVersion || 0) !== (user.tokenVersion || 0)) {
+      await this.revokeSession(session._id.toString(), 'tokens_revoked');
+      throw new AppError('Session has been revoked. Please log in again.', 401);
+    }
+
+    await accountStatusService.assertActive(user);
+
+    const nextTokenId = crypto.randomUUID();
+    const permissions = await roleService.resolvePermissions(user.roles);
+    const tokens = generateTokens(createJWTPayload(user, session._id.toString(), permissions), nextTokenId);
+
+    // Only rotate if nobody else rotated this token concurrently
+    const rotated = await Session.findOneAndUpdate(
+      { _id: session._id, tokenHash: presentedHash, revokedAt: { $exists: false } },
+      {
+        tokenHash: hashTokenId(nextTokenId),
+        expiresAt: getTokenExpiration(tokens.refreshToken),
+        lastUsedAt: new Date(),
+        ...(context.ip && { ip: context.ip }),
+      }
+    );
+
+    if (!rotated) {
+      await this.revokeSession(session._id.toString(), 'reuse_detected');
+      throw new AppError('Refresh token reuse detected. Please log in again.', 401);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async listSessions(userId: string) {
+    return Session.find({
+      user: userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeUserSession(userId: string, sessionId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      throw new AppError('Session not found', 404);
+    }
+
+    const session = await Session.findOne({ _id: sessionId, user: userId, revokedAt: { $exists: false } });
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await this.revokeSession(sessionId, 'user_revoked');
+  }
+
+  /**
+   * Check whether a session is still usable
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await Session.findById(sessionId);
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  /**
+   * Revoke every session for a user, optionally keeping one (e.g. the current device)
+   */
+  async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    const filter: Record<string, any> = { user: userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+      filter._id = { $ne: exceptSessionId };
+    }
+
+    const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
@@ -0,0 +1,345 @@
+import mongoose from 'mongoose';
+import Video, { VIDEO_ASPECT_RATIOS, VIDEO_RESOLUTIONS, VIDEO_STATUSES } from '../models/Video';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { hasWorkspaceRole } from '../config/permissions';
+import { JOB_QUEUES } from '../config/jobQueue';
+import { jobQueueService } from './jobQueue.service';
+import { videoEventService } from './videoEvents.service';
+import { IVideo, IVideoOutput, ResourceOwner, VideoEvent, WorkspaceRole } from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_PROMPT_LENGTH = 2000;
+const MAX_DURATION_SECONDS = 300;
+
+export interface CreateVideoInput {
+  prompt: string;
+  template?: string;
+  resolution?: string;
+  aspectRatio?: string;
+  durationSeconds?: number;
+}
+
+export interface VideoQuery {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+const toResponse = (video: IVideo) => ({
+  id: video._id.toString(),
+  userId: video.user.toString(),
+  workspaceId: video.workspace?.toString(),
+  prompt: video.prompt,
+  template: video.template,
+  resolution: video.resolution,
+  aspectRatio: video.aspectRatio,
+  durationSeconds: video.durationSeconds,
+  status: video.status,
+  progress: video.progress,
+  error: video.error,
+  output: video.output && {
+    url: video.output.url,
+    thumbnailUrl: video.output.thumbnailUrl,
+    format: video.output.format,
+    width: video.output.width,
+    height: video.output.height,
+    durationSeconds: video.output.durationSeconds,
+    sizeBytes: video.output.sizeBytes,
+  },
+  attempts: video.attempts,
+  startedAt: video.startedAt?.toISOString(),
+  completedAt: video.completedAt?.toISOString(),
+  cancelledAt: video.cancelledAt?.toISOString(),
+  createdAt: video.createdAt.toISOString(),
+  updatedAt: video.updatedAt.toISOString(),
+});
+
+export class VideoService {
+  /**
+   * Queue a generation job. With a workspace selected the video belongs to
+   * that workspace and needs the editor role.
+   */
+  async createVideo(userId: string, input: CreateVideoInput, workspace?: { id: string; role?: WorkspaceRole }) {
+    if (workspace && !hasWorkspaceRole(workspace.role, 'editor')) {
+      throw new AppError('This action requires the workspace editor role', 403);
+    }
+
+    const video = await Video.create({
+      user: userId,
+      ...(workspace && { workspace: workspace.id }),
+      ...this.validateInput(input),
+    });
+    await this.enqueueGeneration(video);
+    await videoEventService.publish('video.status', video);
+
+    return toResponse(video);
+  }
+
+  /**
+   * List videos, newest first: the selected workspace's videos, or the user's own
+   */
+  async listVideos(userId: string, query: VideoQuery = {}, workspaceId?: string) {
+    const page = Math.max(1, Math.floor(query.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+
+    const filter: Record<string, any> = workspaceId ? { workspace: workspaceId } : { user: userId };
+    if (query.status) {
+      if (!(VIDEO_STATUSES as readonly string[]).includes(query.status)) {
+        throw new AppError(`Status must be one of: ${VIDEO_STATUSES.join(', ')}`, 400);
+      }
+      filter.status = query.status;
+    }
+
+    const [videos, total] = await Promise.all([
+      Video.find(filter).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * limit).limit(limit),
+      Video.countDocuments(filter),
+    ]);
+
+    return {
+      videos: videos.map(toResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a video. Access is checked by checkResourceOwnership before this is called.
+   */
+  async getVideo(videoId: string) {
+    return toResponse(await this.findVideo(videoId));
+  }
+
+  /**
+   * Who owns a video, for checkResourceOwnership
+   */
+  async getOwner(videoId: string): Promise<ResourceOwner | null> {
+    if (!mongoose.Types.ObjectId.isValid(videoId)) return null;
+
+    const video = await Video.findById(videoId).select('user workspace');
+    return video ? { userId: video.user.toString(), workspaceId: video.workspace?.toString() } : null;
+  }
+
+  /**
+   * Stop a job that has not finished yet
+   */
+  async cancelVideo(videoId: string) {
+    const video = await Video.findOneAndUpdate(
+      { _id: await this.findVideoId(videoId), status: { $in: ['queued', 'processing'] } },
+      { status: 'cancelled', cancelledAt: new Date() },
+      { new: true }
+    );
+    if (!video) {
+      throw new AppError('Only queued or processing videos can be cancelled', 409);
+    }
+    await videoEventService.publish('video.status', video);
+
+    return toResponse(video);
+  }
+
+  /**
+   * Queue a failed or cancelled job again
+   */
+  async retryVideo(videoId: string) {
+    const video = await Video.findOneAndUpdate(
+      { _id: await this.findVideoId(videoId), status: { $in: ['failed', 'cancelled'] } },
+      {
+        $set: { status: 'queued', progress: 0 },
+        $unset: { error: 1, output: 1, provider: 1, providerJobId: 1, startedAt: 1, completedAt: 1, cancelledAt: 1 },
+      },
+      { new: true }
+    );
+    if (!video) {
+      throw new AppError('Only failed or cancelled videos can be retried', 409);
+    }
+    await this.enqueueGeneration(video);
+    await videoEventService.publish('video.status', video);
+
+    return toResponse(video);
+  }
+
+  /**
+   * Delete a video. A job that is being generated must be cancelled first.
+   */
+  async deleteVideo(videoId: string): Promise<void> {
+    const video = await Video.findOneAndDelete({ _id: await this.findVideoId(videoId), status: { $ne: 'processing' } });
+    if (!video) {
+      throw new AppError('Cancel this video before deleting it', 409);
+    }
+    await videoEventService.publish('video.deleted', video);
+  }
+
+  /**
+   * Claim a queued video for generation attempt `attempt`. Returns null if it
+   * is no longer queued, or is queued for a different attempt.
+   */
+  async startProcessing(videoId: string, attempt: number) {
+    const video = await Video.findOneAndUpdate(
+      { _id: videoId, status: 'queued', attempts: attempt - 1 },
+      { status: 'processing', startedAt: new Date(), progress: 0, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (video) await videoEventService.publish('video.status', video);
+    return video;
+  }
+
+  /**
+   * An attempt that is already being generated, e.g. when a worker picks it
+   * up again after a crash. Returns null if it is not processing.
+   */
+  async getProcessing(videoId: string, attempt: number) {
+    return Video.findOne({ _id: videoId, status: 'processing', attempts: attempt });
+  }
+
+  /**
+   * Remember which backend job is generating an attempt, so polling can
+   * resume. Returns false if the attempt is no longer processing.
+   */
+  async setProviderJob(videoId: string, attempt: number, provider: string, providerJobId: string): Promise<boolean> {
+    const result = await Video.updateOne(
+      { _id: videoId, status: 'processing', attempts: attempt },
+      { provider, providerJobId }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Record generation progress (0-100). Returns false once the attempt is no
+   * longer processing, e.g. because it was cancelled or retried.
+   *
+   * The worker methods below are all scoped to one attempt, so a worker still
+   * polling a cancelled attempt cannot touch the retry that replaced it.
+   */
+  async updateProgress(videoId: string, attempt: number, progress: number): Promise<boolean> {
+    const value = Math.min(99, Math.max(0, Math.round(progress)));
+    const previous = await Video.findOneAndUpdate(
+      { _id: videoId, status: 'processing', attempts: attempt },
+      { progress: value }
+    );
+    if (!previous) return false;
+
+    // Providers are polled more often than progress moves
+    if (previous.progress !== value) {
+      previous.progress = value;
+      await videoEventService.publish('video.progress', previous);
+    }
+    return true;
+  }
+
+  /**
+   * Store the finished video and count it towards the user's total
+   */
+  async completeVideo(videoId: string, attempt: number, output: IVideoOutput): Promise<boolean> {
+    const video = await Video.findOneAndUpdate(
+      { _id: videoId, status: 'processing', attempts: attempt },
+      { status: 'completed', progress: 100, output, completedAt: new Date() },
+      { new: true }
+    );
+    if (!video) return false;
+    await videoEventService.publish('video.status', video);
+
+    // Only the transition to completed counts, so a job is never counted twice
+    await User.updateOne({ _id: video.user }, { $inc: { videosGenerated: 1 } });
+    return true;
+  }
+
+  /**
+   * Mark a job failed with a message safe to show the user
+   */
+  async failVideo(videoId: string, attempt: number, error: string): Promise<boolean> {
+    const video = await Video.findOneAndUpdate(
+      { _id: videoId, status: 'processing', attempts: attempt },
+      { status: 'failed', error: error.substring(0, 500) },
+      { new: true }
+    );
+    if (!video) return false;
+
+    await videoEventService.publish('video.status', video);
+    return true;
+  }
+
+  /**
+   * Every video a user created, oldest first (data export)
+   */
+  async listAllForUser(userId: string) {
+    const videos = await Video.find({ user: userId }).sort({ createdAt: 1 });
+    return videos.map(toResponse);
+  }
+
+  /**
+   * Current state of a video as an event, for subscribers that are just
+   * connecting or could not be caught up from recent events
+   */
+  async getEventSnapshot(videoId: string): Promise<VideoEvent> {
+    return videoEventService.buildEvent('video.status', await this.findVideo(videoId), '');
+  }
+
+  /**
+   * Remove every video a user created (account purge)
+   */
+  async deleteVideosForUser(userId: string): Promise<void> {
+    await Video.deleteMany({ user: userId });
+  }
+
+  /**
+   * Queue the generation job for a video's next attempt
+   */
+  private async enqueueGeneration(video: IVideo): Promise<void> {
+    await jobQueueService.enqueue(JOB_QUEUES.videoGeneration, {
+      videoId: video._id.toString(),
+      attempt: video.attempts + 1,
+    });
+  }
+
+  private validateInput(input: CreateVideoInput) {
+    const prompt = typeof input.prompt === 'string' ? input.prompt.trim() : '';
+    if (!prompt) {
+      throw new AppError('Prompt is required', 400);
+    }
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      throw new AppError(`Prompt cannot be more than ${MAX_PROMPT_LENGTH} characters`, 400);
+    }
+
+    if (input.resolution !== undefined && !(VIDEO_RESOLUTIONS as readonly string[]).includes(input.resolution)) {
+      throw new AppError(`Resolution must be one of: ${VIDEO_RESOLUTIONS.join(', ')}`, 400);
+    }
+    if (input.aspectRatio !== undefined && !(VIDEO_ASPECT_RATIOS as readonly string[]).includes(input.aspectRatio)) {
+      throw new AppError(`Aspect ratio must be one of: ${VIDEO_ASPECT_RATIOS.join(', ')}`, 400);
+    }
+    if (input.durationSeconds !== undefined
+      && (!Number.isInteger(input.durationSeconds) || input.durationSeconds < 1 || input.durationSeconds > MAX_DURATION_SECONDS)) {
+      throw new AppError(`Duration must be a whole number of seconds between 1 and ${MAX_DURATION_SECONDS}`, 400);
+    }
+    if (input.template !== undefined && typeof input.template !== 'string') {
+      throw new AppError('Template must be a string', 400);
+    }
+
+    return {
+      prompt,
+      ...(input.template && { template: input.template.trim() }),
+      ...(input.resolution && { resolution: input.resolution }),
+      ...(input.aspectRatio && { aspectRatio: input.aspectRatio }),
+      ...(input.durationSeconds !== undefined && { durationSeconds: input.durationSeconds }),
+    };
+  }
+
+  private async findVideo(videoId: string) {
+    const video = mongoose.Types.ObjectId.isValid(videoId) ? await Video.findById(videoId) : null;
+    if (!video) {
+      throw new AppError('Video not found', 404);
+    }
+    return video;
+  }
+
+  private async findVideoId(videoId: string) {
+    return (await this.findVideo(videoId))._id;
+  }
+}
+
+// Export singleton instance
+export const videoService = new VideoService();
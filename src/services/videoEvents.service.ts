@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import VideoEventRecord from '../models/VideoEvent';
+import { videoEventsConfig } from '../config/videoGeneration';
+import { IVideo, VideoEvent, VideoEventBus, VideoEventType } from '../types';
+
+const EVENT_NAME = 'video';
+
+// Event ids minted by different processes in the same moment can land out of
+// order, so the mongo bus re-reads this far back and skips what it has seen
+const MONGO_BUS_LOOKBACK_MS = 5000;
+
+export interface VideoEventFilter {
+  videoId?: string;
+  userId?: string;
+  workspaceId?: string;
+}
+
+const matches = (event: VideoEvent, filter: VideoEventFilter): boolean =>
+  (!filter.videoId || event.videoId === filter.videoId)
+  && (!filter.userId || event.userId === filter.userId)
+  && (!filter.workspaceId || event.workspaceId === filter.workspaceId);
+
+/**
+ * In-process event bus (API and workers in one process)
+ */
+export class MemoryVideoEventBus implements VideoEventBus {
+  private emitter = new EventEmitter().setMaxListeners(0);
+
+  async publish(event: VideoEvent): Promise<void> {
+    this.emitter.emit(EVENT_NAME, event);
+  }
+
+  subscribe(listener: (event: VideoEvent) => void): () => void {
+    this.emitter.on(EVENT_NAME, listener);
+    return () => this.emitter.off(EVENT_NAME, listener);
+  }
+}
+
+/**
+ * MongoDB event bus (workers in a separate process). Events are written to a
+ * TTL collection and each process with subscribers polls it for new ones.
+ */
+export class MongoVideoEventBus implements VideoEventBus {
+  private emitter = new EventEmitter().setMaxListeners(0);
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private since = Date.now();
+  // Delivered event ids and when they were delivered
+  private seen = new Map<string, number>();
+
+  constructor(private pollIntervalMs: number = videoEventsConfig.busPollIntervalMs) {}
+
+  async publish(event: VideoEvent): Promise<void> {
+    await VideoEventRecord.create({ _id: event.id, event });
+  }
+
+  subscribe(listener: (event: VideoEvent) => void): () => void {
+    this.emitter.on(EVENT_NAME, listener);
+    this.start();
+
+    return () => {
+      this.emitter.off(EVENT_NAME, listener);
+      if (!this.emitter.listenerCount(EVENT_NAME)) this.stop();
+    };
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.since = Date.now();
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.seen.clear();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const startedAt = Date.now();
+      const from = mongoose.Types.ObjectId.createFromTime(Math.floor((this.since - MONGO_BUS_LOOKBACK_MS) / 1000));
+      const records = await VideoEventRecord.find({ _id: { $gt: from } }).sort({ _id: 1 }).limit(1000);
+
+      for (const record of records) {
+        const id = record._id.toString();
+        if (this.seen.has(id)) continue;
+        this.seen.set(id, startedAt);
+        this.emitter.emit(EVENT_NAME, record.event);
+      }
+
+      this.since = startedAt;
+      this.seen.forEach((deliveredAt, id) => {
+        if (deliveredAt < startedAt - 2 * MONGO_BUS_LOOKBACK_MS) this.seen.delete(id);
+      });
+    } catch (error) {
+      console.error('❌ Failed to read video events:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+/**
+ * Pick the event bus from VIDEO_EVENT_BUS (memory | mongo)
+ */
+const createVideoEventBus = (): VideoEventBus => {
+  switch (videoEventsConfig.bus) {
+    case 'mongo':
+      return new MongoVideoEventBus();
+    case 'memory':
+    default:
+      return new MemoryVideoEventBus();
+  }
+};
+
+/**
+ * Publishes video status and progress changes. Transports (SSE today) only
+ * subscribe here, so they never need to know where a change came from.
+ */
+export class VideoEventService {
+  private recent: VideoEvent[] = [];
+  private stopTracking: (() => void) | null = null;
+
+  constructor(private bus: VideoEventBus = createVideoEventBus()) {}
+
+  /**
+   * Swap the event bus (e.g. for tests)
+   */
+  setBus(bus: VideoEventBus): void {
+    this.stopTracking?.();
+    this.stopTracking = null;
+    this.recent = [];
+    this.bus = bus;
+  }
+
+  /**
+   * The event describing a video's current state
+   */
+  buildEvent(type: VideoEventType, video: IVideo, id: string = new mongoose.Types.ObjectId().toString()): VideoEvent {
+    return {
+      id,
+      type,
+      videoId: video._id.toString(),
+      userId: video.user.toString(),
+      workspaceId: video.workspace?.toString(),
+      ...(type !== 'video.deleted' && {
+        status: video.status,
+        progress: video.progress,
+        error: video.error,
+        output: video.output && {
+          url: video.output.url,
+          thumbnailUrl: video.output.thumbnailUrl,
+          format: video.output.format,
+          width: video.output.width,
+          height: video.output.height,
+          durationSeconds: video.output.durationSeconds,
+          sizeBytes: video.output.sizeBytes,
+        },
+      }),
+      at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Publish a change to a video. Failures are only logged - a lost event
+   * just means subscribers see the change with the next one.
+   */
+  async publish(type: VideoEventType, video: IVideo): Promise<void> {
+    try {
+      await this.bus.publish(this.buildEvent(type, video));
+    } catch (error) {
+      console.error('❌ Failed to publish video event:', error);
+    }
+  }
+
+  /**
+   * Receive matching events as they happen. Returns an unsubscribe function.
+   */
+  subscribe(filter: VideoEventFilter, listener: (event: VideoEvent) => void): () => void {
+    this.trackRecent();
+    return this.bus.subscribe(event => {
+      if (matches(event, filter)) listener(event);
+    });
+  }
+
+  /**
+   * Matching events published after `lastEventId`, or null if that event is
+   * no longer held and the subscriber has to resync from the current state
+   */
+  replaySince(lastEventId: string, filter: VideoEventFilter): VideoEvent[] | null {
+    const index = this.recent.findIndex(event => event.id === lastEventId);
+    if (index === -1) return null;
+    return this.recent.slice(index + 1).filter(event => matches(event, filter));
+  }
+
+  private trackRecent(): void {
+    if (this.stopTracking) return;
+    this.stopTracking = this.bus.subscribe(event => {
+      this.recent.push(event);
+      if (this.recent.length > videoEventsConfig.replayBufferSize) this.recent.shift();
+    });
+  }
+}
+
+// Export singleton instance
+export const videoEventService = new VideoEventService();
@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { videoGenerationConfig } from '../config/videoGeneration';
+import {
+  IVideoOutput,
+  VideoAspectRatio,
+  VideoGenerationProvider,
+  VideoGenerationRequest,
+  VideoGenerationStatus,
+  VideoResolution,
+} from '../types';
+
+const SHORT_SIDE: Record<VideoResolution, number> = {
+  '480p': 480,
+  '720p': 720,
+  '1080p': 1080,
+  '4k': 2160,
+};
+
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Pixel size of a video, e.g. 1080p at 9:16 is 1080x1920
+ */
+export const getOutputDimensions = (resolution: VideoResolution, aspectRatio: VideoAspectRatio) => {
+  const shortSide = SHORT_SIDE[resolution];
+  const [w, h] = aspectRatio.split(':').map(Number);
+  // Encoders want even dimensions
+  const longSide = Math.round((shortSide * Math.max(w, h)) / Math.min(w, h) / 2) * 2;
+
+  return w >= h ? { width: longSide, height: shortSide } : { width: shortSide, height: longSide };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Everything a mock job needs is encoded in its id, so any process (or a
+// restarted one) can report on a job another one submitted
+interface MockJob {
+  request: Pick<VideoGenerationRequest, 'videoId' | 'attempt' | 'prompt' | 'resolution' | 'aspectRatio' | 'durationSeconds'>;
+  submittedAt: number;
+  runtimeMs: number;
+  // Progress at which the job fails, if it is going to
+  failAt?: number;
+}
+
+// How long a cancellation is remembered. Nothing polls a job once it is
+// cancelled, so this only has to outlast a reclaimed job's next poll.
+const CANCELLED_RETENTION_MS = 60 * 60 * 1000;
+
+const MOCK_JOB_PREFIX = 'mock_';
+
+const encodeJob = (job: MockJob): string =>
+  MOCK_JOB_PREFIX + Buffer.from(JSON.stringify(job)).toString('base64url');
+
+const decodeJob = (providerJobId: string): MockJob | null => {
+  if (!providerJobId.startsWith(MOCK_JOB_PREFIX)) return null;
+  try {
+    const job = JSON.parse(Buffer.from(providerJobId.substring(MOCK_JOB_PREFIX.length), 'base64url').toString());
+    return typeof job?.submittedAt === 'number' && typeof job.runtimeMs === 'number' && job.request ? job : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface MockVideoProviderOptions {
+  latencyMs: number;
+  failureRate: number;
+  seed: string;
+  outputDir: string;
+  publicUrl: string;
+}
+
+/**
+ * Local stand-in for a real backend, for development and tests.
+ * Everything is derived from a hash of the seed, prompt and attempt, so the
+ * same request always takes the same time and fails (or not) at the same point.
+ * Include "[mock:fail]" in a prompt to force a failure.
+ * Finished jobs produce SVG placeholder frames instead of real video.
+ * Job state lives in the job id; only cancellations are held in memory.
+ */
+export class MockVideoProvider implements VideoGenerationProvider {
+  readonly id = 'mock';
+  // Cancelled job ids and when they were cancelled
+  private cancelled = new Map<string, number>();
+
+  constructor(
+    private options: MockVideoProviderOptions = videoGenerationConfig.mock,
+    private now: () => number = Date.now
+  ) {}
+
+  async submit(request: VideoGenerationRequest): Promise<string> {
+    const digest = crypto
+      .createHash('sha256')
+      .update(`${this.options.seed}:${request.prompt}:${request.attempt}`)
+      .digest();
+
+    // Between 0.75x and 1.25x the configured latency, scaled by video length
+    const jitter = 0.75 + digest[0] / 510;
+    const runtimeMs = Math.max(1, Math.round(this.options.latencyMs * (request.durationSeconds / 15) * jitter));
+
+    const fails = request.prompt.includes('[mock:fail]')
+      || digest.readUInt32BE(1) / 0xffffffff < this.options.failureRate;
+
+    const { videoId, attempt, resolution, aspectRatio, durationSeconds } = request;
+    return encodeJob({
+      // Only the start of the prompt is ever rendered
+      request: { videoId, attempt, prompt: request.prompt.substring(0, 81), resolution, aspectRatio, durationSeconds },
+      submittedAt: this.now(),
+      runtimeMs,
+      ...(fails && { failAt: 20 + (digest[5] % 60) }),
+    });
+  }
+
+  async getStatus(providerJobId: string): Promise<VideoGenerationStatus> {
+    const job = this.findJob(providerJobId);
+    const progress = Math.min(100, Math.floor(((this.now() - job.submittedAt) / job.runtimeMs) * 100));
+
+    if (this.cancelled.has(providerJobId)) {
+      return { state: 'cancelled', progress };
+    }
+    if (job.failAt !== undefined && progress >= job.failAt) {
+      return { state: 'failed', progress: job.failAt, error: 'Video generation failed (simulated by the mock provider)' };
+    }
+    if (progress >= 100) {
+      return { state: 'succeeded', progress: 100 };
+    }
+    return { state: progress > 0 ? 'running' : 'pending', progress };
+  }
+
+  async cancel(providerJobId: string): Promise<void> {
+    const status = await this.getStatus(providerJobId);
+    if (status.state === 'pending' || status.state === 'running') {
+      this.pruneCancelled();
+      this.cancelled.set(providerJobId, this.now());
+    }
+  }
+
+  async getResult(providerJobId: string): Promise<IVideoOutput> {
+    const status = await this.getStatus(providerJobId);
+    if (status.state !== 'succeeded') {
+      throw new Error(`Mock job ${providerJobId} has not succeeded (${status.state})`);
+    }
+
+    const { request } = this.findJob(providerJobId);
+    const { width, height } = getOutputDimensions(request.resolution, request.aspectRatio);
+    const thumbnailHeight = Math.round((THUMBNAIL_WIDTH * height) / width);
+
+    await fs.mkdir(this.options.outputDir, { recursive: true });
+    // Job ids are too long for file names
+    const name = `${request.videoId}-${request.attempt}`;
+    const frame = this.renderFrame(request, width, height);
+    await fs.writeFile(path.join(this.options.outputDir, `${name}.svg`), frame);
+    await fs.writeFile(
+      path.join(this.options.outputDir, `${name}-thumb.svg`),
+      this.renderFrame(request, THUMBNAIL_WIDTH, thumbnailHeight)
+    );
+
+    return {
+      url: `${this.options.publicUrl}/${name}.svg`,
+      thumbnailUrl: `${this.options.publicUrl}/${name}-thumb.svg`,
+      format: 'svg',
+      width,
+      height,
+      durationSeconds: request.durationSeconds,
+      sizeBytes: Buffer.byteLength(frame),
+    };
+  }
+
+  private findJob(providerJobId: string): MockJob {
+    const job = decodeJob(providerJobId);
+    if (!job) {
+      throw new Error(`Unknown mock job: ${providerJobId}`);
+    }
+    return job;
+  }
+
+  private pruneCancelled(): void {
+    const cutoff = this.now() - CANCELLED_RETENTION_MS;
+    this.cancelled.forEach((cancelledAt, providerJobId) => {
+      if (cancelledAt < cutoff) this.cancelled.delete(providerJobId);
+    });
+  }
+
+  private renderFrame(request: MockJob['request'], width: number, height: number): string {
+    const prompt = request.prompt.length > 80 ? `${request.prompt.substring(0, 77)}...` : request.prompt;
+    const fontSize = Math.max(10, Math.round(width / 40));
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="100%" height="100%" fill="#1f2937"/>`,
+      `<text x="50%" y="45%" fill="#f9fafb" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle">${escapeXml(prompt)}</text>`,
+      `<text x="50%" y="55%" fill="#9ca3af" font-family="sans-serif" font-size="${Math.round(fontSize * 0.75)}" text-anchor="middle">`
+        + `${request.resolution} ${request.aspectRatio} ${request.durationSeconds}s - mock output</text>`,
+      '</svg>',
+    ].join('\n');
+  }
+}
+
+/**
+ * Generation backends by id. The mock provider is always available; real
+ * backends register themselves here, and VIDEO_PROVIDER picks which one
+ * new jobs go to.
+ */
+export class VideoProviderRegistry {
+  private providers = new Map<string, VideoGenerationProvider>();
+
+  constructor(private defaultId: string = videoGenerationConfig.provider) {
+    this.register(new MockVideoProvider());
+  }
+
+  /**
+   * Add a provider, replacing any registered under the same id
+   */
+  register(provider: VideoGenerationProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Look up a provider, by default the configured one. Jobs already running
+   * should be polled through the provider that accepted them.
+   */
+  get(id: string = this.defaultId): VideoGenerationProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown video generation provider: ${id}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Change where new jobs are submitted (e.g. a test swapping in a stub)
+   */
+  setDefault(id: string): void {
+    this.get(id);
+    this.defaultId = id;
+  }
+
+  getDefaultId(): string {
+    return this.defaultId;
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const videoProviderRegistry = new VideoProviderRegistry();
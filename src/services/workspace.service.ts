@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Workspace from '../models/Workspace';
+import WorkspaceInvitation from '../models/WorkspaceInvitation';
+import User from '../models/User';
+import Video from '../models/Video';
+import { emailService } from '../utils/email.service';
+import { isValidEmail } from '../utils/validation';
+import { AppError } from '../middleware/errorHandler';
+import { hasWorkspaceRole } from '../config/permissions';
+import { workspaceConfig } from '../config/security';
+import { IWorkspace, IWorkspaceInvitation, WorkspaceRole } from '../types';
+
+// Ownership is never handed out through invitations or role changes
+const ASSIGNABLE_ROLES = ['admin', 'editor', 'viewer'] as const;
+type AssignableRole = typeof ASSIGNABLE_ROLES[number];
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const findMember = (workspace: IWorkspace, userId: string) => {
+  return workspace.members.find(member => member.user.toString() === userId);
+};
+
+const toResponse = (workspace: IWorkspace, userId: string) => ({
+  id: workspace._id.toString(),
+  name: workspace.name,
+  ownerId: workspace.owner.toString(),
+  role: findMember(workspace, userId)?.role,
+  memberCount: workspace.members.length,
+  createdAt: workspace.createdAt.toISOString(),
+});
+
+const toInvitationResponse = (invitation: IWorkspaceInvitation) => ({
+  id: invitation._id.toString(),
+  workspaceId: invitation.workspace.toString(),
+  email: invitation.email,
+  role: invitation.role,
+  status: invitation.status,
+  invitedBy: invitation.invitedBy.toString(),
+  expiresAt: invitation.expiresAt.toISOString(),
+  createdAt: invitation.createdAt.toISOString(),
+});
+
+export class WorkspaceService {
+  /**
+   * Create a workspace owned by the user
+   */
+  async createWorkspace(userId: string, name: string) {
+    const workspace = await Workspace.create({
+      name: this.assertName(name),
+      owner: userId,
+      members: [{ user: userId, role: 'owner', joinedAt: new Date() }],
+    });
+
+    return toResponse(workspace, userId);
+  }
+
+  /**
+   * Workspaces the user belongs to, with their role in each
+   */
+  async listWorkspaces(userId: string) {
+    const workspaces = await Workspace.find({ 'members.user': userId }).sort({ createdAt: 1 });
+    return workspaces.map(workspace => toResponse(workspace, userId));
+  }
+
+  /**
+   * A workspace the user belongs to
+   */
+  async getWorkspace(userId: string, workspaceId: string) {
+    const { workspace } = await this.requireRole(workspaceId, userId, 'viewer');
+    return toResponse(workspace, userId);
+  }
+
+  /**
+   * Rename a workspace (admins and the owner)
+   */
+  async renameWorkspace(userId: string, workspaceId: string, name: string) {
+    const { workspace } = await this.requireRole(workspaceId, userId, 'admin');
+
+    workspace.name = this.assertName(name);
+    await workspace.save();
+
+    return toResponse(workspace, userId);
+  }
+
+  /**
+   * Delete a workspace and its invitations (owner only)
+   */
+  async deleteWorkspace(userId: string, workspaceId: string): Promise<void> {
+    const { workspace } = await this.requireRole(workspaceId, userId, 'owner');
+
+    // Videos stay with the members who created them
+    await Video.updateMany({ workspace: workspace._id }, { $unset: { workspace: 1 } });
+    await WorkspaceInvitation.deleteMany({ workspace: workspace._id });
+    await Workspace.deleteOne({ _id: workspace._id });
+  }
+
+  /**
+   * Resolve a user's membership of a workspace, or null if they are not a member
+   */
+  async getMembership(workspaceId: string, userId: string): Promise<{ workspace: IWorkspace; role: WorkspaceRole } | null> {
+    if (!mongoose.Types.ObjectId.isValid(workspaceId)) return null;
+
+    const workspace = await Workspace.findById(workspaceId);
+    const member = workspace && findMember(workspace, userId);
+    return workspace && member ? { workspace, role: member.role } : null;
+  }
+
+  /**
+   * Members with their name and email
+   */
+  async listMembers(userId: string, workspaceId: string) {
+    const { workspace } = await this.requireRole(workspaceId, userId, 'viewer');
+
+    const users = await User.find({ _id: { $in: workspace.members.map(member => member.user) } }).select('name email');
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    return workspace.members.map(member => {
+      const user = usersById.get(member.user.toString());
+      return {
+        userId: member.user.toString(),
+        name: user?.name,
+        email: user?.email,
+        role: member.role,
+        joinedAt: member.joinedAt.toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Change a member's role. Only the owner can grant or take away admin.
+   */
+  async changeMemberRole(actorId: string, workspaceId: string, memberId: string, role: string) {
+    const { workspace, role: actorRole } = await this.requireRole(workspaceId, actorId, 'admin');
+    this.assertAssignableRole(role);
+
+    if (memberId === actorId) {
+      throw new AppError('You cannot change your own role', 400);
+    }
+
+    const member = findMember(workspace, memberId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+    if (member.role === 'owner') {
+      throw new AppError('The workspace owner\'s role cannot be changed', 400);
+    }
+    if ((member.role === 'admin' || role === 'admin') && actorRole !== 'owner') {
+      throw new AppError('Only the workspace owner can manage admins', 403);
+    }
+
+    member.role = role;
+    await workspace.save();
+
+    return { userId: memberId, role: member.role };
+  }
+
+  /**
+   * Remove a member. Members may also remove themselves; the owner cannot leave.
+   */
+  async removeMember(actorId: string, workspaceId: string, memberId: string): Promise<void> {
+    const leaving = actorId === memberId;
+    const { workspace, role: actorRole } = await this.requireRole(workspaceId, actorId, leaving ? 'viewer' : 'admin');
+
+    const member = findMember(workspace, memberId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+    if (member.role === 'owner') {
+      throw new AppError('The workspace owner cannot be removed. Delete the workspace instead.', 400);
+    }
+    if (!leaving && member.role === 'admin' && actorRole !== 'owner') {
+      throw new AppError('Only the workspace owner can manage admins', 403);
+    }
+
+    await Workspace.updateOne({ _id: workspace._id }, { $pull: { members: { user: member.user } } });
+  }
+
+  /**
+   * Email an invitation to join the workspace. A new invitation replaces any
+   * pending one for the same address.
+   */
+  async inviteMember(actorId: string, workspaceId: string, email: string, role: string) {
+    const { workspace, role: actorRole } = await this.requireRole(workspaceId, actorId, 'admin');
+    this.assertAssignableRole(role);
+
+    if (role === 'admin' && actorRole !== 'owner') {
+      throw new AppError('Only the workspace owner can invite admins', 403);
+    }
+
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+    if (!isValidEmail(normalizedEmail)) {
+      throw new AppError('Please provide a valid email address', 400);
+    }
+
+    const existingUser = await User.findOne({ email: normalizedEmail }).select('_id');
+    if (existingUser && findMember(workspace, existingUser._id.toString())) {
+      throw new AppError('This person is already a member of the workspace', 409);
+    }
+
+    await WorkspaceInvitation.updateMany(
+      { workspace: workspace._id, email: normalizedEmail, status: 'pending' },
+      { status: 'revoked', respondedAt: new Date() }
+    );
+
+    const pendingInvitations = await WorkspaceInvitation.countDocuments({
+      workspace: workspace._id,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    });
+    if (workspace.members.length + pendingInvitations >= workspaceConfig.maxMembers) {
+      throw new AppError(`A workspace can have at most ${workspaceConfig.maxMembers} members`, 400);
+    }
+
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const invitation = await WorkspaceInvitation.create({
+      workspace: workspace._id,
+      email: normalizedEmail,
+      role,
+      invitedBy: actorId,
+      tokenHash: hashToken(secret),
+      expiresAt: new Date(Date.now() + workspaceConfig.invitationTtlMs),
+    });
+
+    const inviter = await User.findById(actorId).select('name');
+    const token = `${invitation._id}.${secret}`;
+    await emailService.sendWorkspaceInvitation(
+      normalizedEmail,
+      inviter?.name || 'A teammate',
+      workspace.name,
+      role,
+      this.buildLink('/workspaces/invitations/accept', token),
+      this.buildLink('/workspaces/invitations/decline', token),
+      invitation.expiresAt
+    );
+
+    return toInvitationResponse(invitation);
+  }
+
+  /**
+   * Invitations still waiting for an answer
+   */
+  async listInvitations(actorId: string, workspaceId: string) {
+    const { workspace } = await this.requireRole(workspaceId, actorId, 'admin');
+
+    const invitations = await WorkspaceInvitation.find({
+      workspace: workspace._id,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+
+    return invitations.map(toInvitationResponse);
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async revokeInvitation(actorId: string, workspaceId: string, invitationId: string): Promise<void> {
+    const { workspace } = await this.requireRole(workspaceId, actorId, 'admin');
+
+    const result = mongoose.Types.ObjectId.isValid(invitationId)
+      ? await WorkspaceInvitation.updateOne(
+        { _id: invitationId, workspace: workspace._id, status: 'pending' },
+        { status: 'revoked', respondedAt: new Date() }
+      )
+      : null;
+
+    if (!result?.modifiedCount) {
+      throw new AppError('Invitation not found', 404);
+    }
+  }
+
+  /**
+   * Join a workspace with an emailed invitation. The signed-in account must
+   * use the address the invitation was sent to.
+   */
+  async acceptInvitation(userId: string, token: string) {
+    const invitation = await this.findPendingInvitation(token);
+
+    const user = await User.findById(userId).select('email');
+    if (!user || user.email !== invitation.email) {
+      throw new AppError('This invitation was sent to a different email address', 403);
+    }
+
+    const workspace = await Workspace.findById(invitation.workspace);
+    if (!workspace) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+
+    // Claim the invitation first, so one revoked (or used) meanwhile is not accepted
+    if (!(await this.respondToInvitation(invitation._id.toString(), 'accepted'))) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+
+    if (findMember(workspace, userId)) {
+      return toResponse(workspace, userId);
+    }
+
+    // The member limit is part of the filter so concurrent accepts cannot overfill the
+    // workspace, and accepting twice (or racing another accept) never duplicates the member
+    const joined = await Workspace.findOneAndUpdate(
+      {
+        _id: workspace._id,
+        'members.user': { $ne: user._id },
+        [`members.${workspaceConfig.maxMembers - 1}`]: { $exists: false },
+      },
+      { $push: { members: { user: user._id, role: invitation.role, joinedAt: new Date() } } },
+      { new: true }
+    );
+
+    if (!joined) {
+      const current = await Workspace.findById(workspace._id);
+      if (current && findMember(current, userId)) {
+        return toResponse(current, userId);
+      }
+
+      // Full - leave the invitation usable in case a seat frees up
+      await WorkspaceInvitation.updateOne(
+        { _id: invitation._id, status: 'accepted' },
+        { status: 'pending', $unset: { respondedAt: '' } }
+      );
+      throw new AppError(`A workspace can have at most ${workspaceConfig.maxMembers} members`, 400);
+    }
+
+    return toResponse(joined, userId);
+  }
+
+  /**
+   * Turn down an emailed invitation. Needs no sign-in - the token proves receipt.
+   */
+  async declineInvitation(token: string): Promise<void> {
+    const invitation = await this.findPendingInvitation(token);
+
+    if (!(await this.respondToInvitation(invitation._id.toString(), 'declined'))) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+  }
+
+  /**
+   * Drop a deleted user from every workspace. Workspaces they own are deleted.
+   */
+  async removeUserFromWorkspaces(userId: string): Promise<void> {
+    const owned = await Workspace.find({ owner: userId }).select('_id');
+    const ownedIds = owned.map(workspace => workspace._id);
+
+    await Promise.all([
+      Video.updateMany({ workspace: { $in: ownedIds } }, { $unset: { workspace: 1 } }),
+      WorkspaceInvitation.deleteMany({ workspace: { $in: ownedIds } }),
+      Workspace.deleteMany({ _id: { $in: ownedIds } }),
+      Workspace.updateMany({ 'members.user': userId }, { $pull: { members: { user: userId } } }),
+    ]);
+  }
+
+  private async findPendingInvitation(token: unknown) {
+    if (typeof token !== 'string' || !token) {
+      throw new AppError('Invitation token is required', 400);
+    }
+
+    const [invitationId, secret] = token.split('.');
+    if (!invitationId || !secret || !mongoose.Types.ObjectId.isValid(invitationId)) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+
+    const invitation = await WorkspaceInvitation.findById(invitationId).select('+tokenHash');
+    if (!invitation || invitation.status !== 'pending' || invitation.expiresAt < new Date()) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+
+    const expected = Buffer.from(invitation.tokenHash, 'hex');
+    const presented = Buffer.from(hashToken(secret), 'hex');
+    if (!crypto.timingSafeEqual(expected, presented)) {
+      throw new AppError('Invalid or expired invitation', 404);
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Move an invitation out of pending. Returns false if it is no longer
+   * pending (revoked, expired or already answered).
+   */
+  private async respondToInvitation(invitationId: string, status: 'accepted' | 'declined'): Promise<boolean> {
+    const result = await WorkspaceInvitation.updateOne(
+      { _id: invitationId, status: 'pending', expiresAt: { $gt: new Date() } },
+      { status, respondedAt: new Date() }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Load the workspace and check the user's role in it. Non-members get a 404
+   * so workspace ids cannot be probed.
+   */
+  private async requireRole(workspaceId: string, userId: string, required: WorkspaceRole) {
+    const membership = await this.getMembership(workspaceId, userId);
+    if (!membership) {
+      throw new AppError('Workspace not found', 404);
+    }
+
+    if (!hasWorkspaceRole(membership.role, required)) {
+      throw new AppError(`This action requires the workspace ${required} role`, 403);
+    }
+
+    return membership;
+  }
+
+  private assertName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new AppError('Workspace name is required', 400);
+    }
+    return trimmed;
+  }
+
+  private assertAssignableRole(role: string): asserts role is AssignableRole {
+    if (!(ASSIGNABLE_ROLES as readonly string[]).includes(role)) {
+      throw new AppError(`Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`, 400);
+    }
+  }
+
+  private buildLink(path: string, token: string): string {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+    return `${appUrl}${path}?token=${encodeURIComponent(token)}`;
+  }
+}
+
+// Export singleton instance
+export const workspaceService = new WorkspaceService();
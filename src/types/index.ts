@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 
 export interface IUser extends Document {
   _id: string;
@@ -7,33 +7,420 @@ export interface IUser extends Document {
   email: string;
   password: string;
   plan: 'free' | 'pro' | 'premium';
-  isAdmin: boolean;
+  roles: string[];
+  /** Derived from `roles` - true when the user holds the built-in admin role */
+  readonly isAdmin: boolean;
   isEmailVerified: boolean;
-  emailVerificationCode?: string;
-  emailVerificationExpires?: Date;
-  passwordResetCode?: string;
-  passwordResetExpires?: Date;
+  status: AccountStatus;
+  suspendedUntil?: Date;
+  statusReason?: string;
+  statusChangedAt?: Date;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  pendingEmail?: string;
+  pendingEmailExpires?: Date;
+  previousEmail?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
   connectedPlatforms: string[];
   videosGenerated: number;
+  tokenVersion: number;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
   
   comparePassword(candidatePassword: string): Promise<boolean>;
+  passwordNeedsRehash(): boolean;
   generatePasswordResetToken(): string;
   generateEmailVerificationToken(): string;
 }
 
+export interface ISession extends Document {
+  _id: string;
+  user: Types.ObjectId;
+  tokenHash: string;
+  userAgent?: string;
+  ip?: string;
+  device: DeviceInfo;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AuditEventType =
+  | 'register'
+  | 'verify_email'
+  | 'login'
+  | 'refresh'
+  | 'password_change'
+  | 'password_reset'
+  | 'profile_update'
+  | 'logout'
+  | 'account_delete'
+  | 'account_restore'
+  | 'data_export'
+  | 'impersonation_start'
+  | 'impersonated_request';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface IAuditEvent extends Document {
+  _id: string;
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  user?: Types.ObjectId;
+  actor?: Types.ObjectId;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+export type DataExportFormat = 'json' | 'zip';
+
+export interface IDataExport extends Document {
+  _id: string;
+  user: Types.ObjectId;
+  status: DataExportStatus;
+  format: DataExportFormat;
+  tokenHash?: string;
+  archive?: Buffer;
+  size?: number;
+  error?: string;
+  completedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type VideoStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type VideoResolution = '480p' | '720p' | '1080p' | '4k';
+export type VideoAspectRatio = '16:9' | '9:16' | '1:1' | '4:5';
+
+export interface IVideoOutput {
+  url: string;
+  thumbnailUrl?: string;
+  format: string;
+  width: number;
+  height: number;
+  durationSeconds: number;
+  sizeBytes?: number;
+}
+
+export interface IVideo extends Document {
+  _id: string;
+  user: Types.ObjectId;
+  workspace?: Types.ObjectId;
+  prompt: string;
+  template?: string;
+  resolution: VideoResolution;
+  aspectRatio: VideoAspectRatio;
+  durationSeconds: number;
+  status: VideoStatus;
+  progress: number;
+  error?: string;
+  output?: IVideoOutput;
+  attempts: number;
+  provider?: string;
+  providerJobId?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VideoGenerationRequest {
+  videoId: string;
+  prompt: string;
+  template?: string;
+  resolution: VideoResolution;
+  aspectRatio: VideoAspectRatio;
+  durationSeconds: number;
+  // 1 for the first try, so a provider can tell retries apart
+  attempt: number;
+}
+
+export type VideoGenerationState = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface VideoGenerationStatus {
+  state: VideoGenerationState;
+  // 0-100
+  progress: number;
+  // Set when state is failed; safe to show the user
+  error?: string;
+}
+
+/**
+ * An AI video backend. Jobs are asynchronous: submit returns the provider's
+ * job id, which is then polled until it reaches a final state.
+ */
+export interface VideoGenerationProvider {
+  readonly id: string;
+  submit(request: VideoGenerationRequest): Promise<string>;
+  getStatus(providerJobId: string): Promise<VideoGenerationStatus>;
+  cancel(providerJobId: string): Promise<void>;
+  // Only valid once the job has succeeded
+  getResult(providerJobId: string): Promise<IVideoOutput>;
+}
+
+export type VideoEventType = 'video.status' | 'video.progress' | 'video.deleted';
+
+/**
+ * A change to a video, as delivered to real-time subscribers
+ */
+export interface VideoEvent {
+  // Increasing ObjectId hex, used as the SSE event id for Last-Event-ID resume
+  id: string;
+  type: VideoEventType;
+  videoId: string;
+  userId: string;
+  workspaceId?: string;
+  status?: VideoStatus;
+  progress?: number;
+  error?: string;
+  output?: IVideoOutput;
+  at: string;
+}
+
+/**
+ * Carries video events from whichever process produced them (API or worker)
+ * to every process with subscribers
+ */
+export interface VideoEventBus {
+  publish(event: VideoEvent): Promise<void>;
+  // Returns an unsubscribe function
+  subscribe(listener: (event: VideoEvent) => void): () => void;
+}
+
+export interface IVideoEventRecord extends Document {
+  _id: string;
+  event: VideoEvent;
+  createdAt: Date;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface IJob extends Document {
+  _id: string;
+  queue: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  // Claims so far, including the current one
+  attempts: number;
+  maxAttempts: number;
+  // Not claimed before this time (delayed jobs and retry backoff)
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  deadAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export interface IWorkspaceMember {
+  user: Types.ObjectId;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  _id: string;
+  name: string;
+  owner: Types.ObjectId;
+  members: IWorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WorkspaceInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface IWorkspaceInvitation extends Document {
+  _id: string;
+  workspace: Types.ObjectId;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invitedBy: Types.ObjectId;
+  tokenHash: string;
+  status: WorkspaceInvitationStatus;
+  respondedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+
+export interface AccountRestriction {
+  status: Exclude<AccountStatus, 'active'>;
+  code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_BANNED';
+  message: string;
+  reason?: string;
+  suspendedUntil?: Date;
+}
+
+export interface IRole extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type OneTimeCodePurpose =
+  | 'email_verification'
+  | 'password_reset'
+  | 'magic_link'
+  | 'magic_code'
+  | 'email_change'
+  | 'email_change_undo'
+  | 'account_restore';
+
+// Numeric codes are typed by hand and guessable, so they get an attempt limit; tokens are 256-bit link secrets
+export type OneTimeCodeFormat = 'numeric' | 'token';
+
+export interface IOneTimeCode extends Document {
+  _id: string;
+  user: Types.ObjectId;
+  purpose: OneTimeCodePurpose;
+  format: OneTimeCodeFormat;
+  codeHash: string;
+  attempts: number;
+  maxAttempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  nextAllowedAt?: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SessionRevokeReason = 'logout' | 'user_revoked' | 'password_change' | 'password_reset' | 'email_change' | 'reuse_detected' | 'tokens_revoked' | 'account_deleted' | 'admin_action';
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  type: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+}
+
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export type ApiKeyScope = 'profile:read' | 'profile:write' | 'videos:read' | 'videos:write';
+
+export interface IApiKey extends Document {
+  _id: string;
+  user: Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface AuthRequest extends Request {
   user?: IUser;
+  auth?: JWTPayload;
+  apiKey?: IApiKey;
+  permissions?: string[];
+  // Id of the admin impersonating req.user
+  impersonatedBy?: string;
+  // Set when the request selects a workspace with X-Workspace-Id
+  workspace?: IWorkspace;
+  workspaceRole?: WorkspaceRole;
+}
+
+export interface ResourceOwner {
+  userId: string;
+  workspaceId?: string;
 }
 
+// Looks up who owns the resource a request targets, or null if it does not exist
+export type ResourceOwnerResolver = (req: AuthRequest) => Promise<ResourceOwner | null>;
+
 export interface JWTPayload {
   userId: string;
   id: string;
   email: string;
   plan: 'free' | 'pro' | 'premium';
   isAdmin: boolean;
+  roles: string[];
+  permissions: string[];
+  tokenVersion?: number;
+  sid?: string;
+  jti?: string;
+  exp?: number;
+  // Id of the admin acting as this user (impersonation tokens only)
+  impersonatedBy?: string;
+}
+
+export interface IRevokedToken extends Document {
+  jti: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface TokenRevocationStore {
+  revoke(jti: string, expiresAt: Date): Promise<void>;
+  isRevoked(jti: string): Promise<boolean>;
+}
+
+export interface BreachedPasswordChecker {
+  isBreached(password: string): Promise<boolean>;
+}
+
+/**
+ * A password hashing algorithm. Hashes are self-describing strings that carry
+ * the algorithm id and cost parameters, so several algorithms can coexist.
+ */
+export interface PasswordHasher {
+  readonly id: string;
+  // Whether an encoded hash was produced by this algorithm
+  recognizes(encoded: string): boolean;
+  hash(password: string): Promise<string>;
+  verify(password: string, encoded: string): Promise<boolean>;
+  // True when the hash was made with different cost parameters than currently configured
+  isOutdated(encoded: string): boolean;
+}
+
+export type PasswordCharacterClass = 'lowercase' | 'uppercase' | 'letter' | 'digit' | 'symbol';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requiredClasses: PasswordCharacterClass[];
+  forbidPersonalInfo: boolean;
+  useBlocklist: boolean;
+  checkBreached: boolean;
 }
 
 export interface ApiResponse<T = any> {
@@ -50,6 +437,7 @@ export interface AuthResponse {
     email: string;
     plan: 'free' | 'pro' | 'premium';
     isAdmin: boolean;
+    roles: string[];
     connectedPlatforms: string[];
     videosGenerated: number;
   };
@@ -57,6 +445,12 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
 export interface RegisterRequest {
   name: string;
   email: string;
@@ -94,6 +488,9 @@ export interface ValidationError {
 export interface CustomError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
+  retryAfter?: number;
+  errors?: ValidationError[];
 }
 
 export interface DatabaseOptions {
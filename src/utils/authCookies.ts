@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import { cookieAuthConfig } from '../config/security';
+import { parseDuration } from './jwt';
+
+/**
+ * Cookie session mode
+ *
+ * Browser clients opt in with `X-Auth-Mode: cookie` on login, verify-email,
+ * reset-password or refresh. The tokens are then set as HttpOnly cookies
+ * instead of being returned in the body, and a CSRF token is issued for the
+ * double-submit check: it is returned in the body and set in a readable
+ * cookie, and every state-changing request authenticated by cookie must echo
+ * it in `X-CSRF-Token`.
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_TOKEN_COOKIE = 'csrf_token';
+
+// The refresh token is only ever needed by the auth routes
+const REFRESH_TOKEN_PATH = '/api/auth';
+
+const baseCookieOptions = (): CookieOptions => ({
+  secure: cookieAuthConfig.secure || cookieAuthConfig.sameSite === 'none',
+  sameSite: cookieAuthConfig.sameSite,
+  ...(cookieAuthConfig.domain && { domain: cookieAuthConfig.domain }),
+});
+
+/**
+ * Read a cookie from the request without a cookie-parser dependency
+ */
+export const getCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator < 0 || part.slice(0, separator).trim() !== name) continue;
+
+    const value = part.slice(separator + 1).trim();
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Whether tokens for this request should travel in cookies: the client asked
+ * for it, or it is already authenticating with cookies (e.g. a refresh).
+ */
+export const usesCookieAuth = (req: Request): boolean => {
+  if (!cookieAuthConfig.enabled) return false;
+  if (req.get('x-auth-mode')?.toLowerCase() === 'cookie') return true;
+  return !req.headers.authorization && hasAuthCookie(req);
+};
+
+/**
+ * Set the access, refresh and CSRF cookies. Returns the CSRF token for the response body.
+ */
+export const setAuthCookies = (res: Response, tokens: { token: string; refreshToken: string }): string => {
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.token, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: '/',
+    maxAge: parseDuration(process.env.JWT_EXPIRE || '7d') * 1000,
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: REFRESH_TOKEN_PATH,
+    maxAge: parseDuration(process.env.JWT_REFRESH_EXPIRE || '30d') * 1000,
+  });
+
+  return issueCsrfToken(res);
+};
+
+/**
+ * Set a fresh CSRF cookie and return its value
+ */
+export const issueCsrfToken = (res: Response): string => {
+  const csrfToken = crypto.randomBytes(32).toString('base64url');
+
+  // Readable by scripts on purpose - the client echoes it back in X-CSRF-Token
+  res.cookie(CSRF_TOKEN_COOKIE, csrfToken, {
+    ...baseCookieOptions(),
+    httpOnly: false,
+    path: '/',
+    maxAge: parseDuration(process.env.JWT_REFRESH_EXPIRE || '30d') * 1000,
+  });
+
+  return csrfToken;
+};
+
+/**
+ * Whether the request carries an access or refresh token cookie
+ */
+export const hasAuthCookie = (req: Request): boolean => {
+  return !!(getCookie(req, ACCESS_TOKEN_COOKIE) || getCookie(req, REFRESH_TOKEN_COOKIE));
+};
+
+/**
+ * Remove every auth cookie (logout, account deletion)
+ */
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, { ...baseCookieOptions(), path: '/' });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { ...baseCookieOptions(), path: REFRESH_TOKEN_PATH });
+  res.clearCookie(CSRF_TOKEN_COOKIE, { ...baseCookieOptions(), path: '/' });
+};
+
+/**
+ * In cookie mode, move the tokens out of the response body into cookies and
+ * add the CSRF token. Otherwise the body is returned unchanged.
+ */
+export const deliverTokens = <T extends { token: string; refreshToken: string }>(
+  req: Request,
+  res: Response,
+  body: T
+): T | (Omit<T, 'token' | 'refreshToken'> & { csrfToken: string }) => {
+  if (!usesCookieAuth(req)) return body;
+
+  const csrfToken = setAuthCookies(res, body);
+  const { token, refreshToken, ...rest } = body;
+  return { ...rest, csrfToken };
+};
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import { EmailOptions } from '../types';
 
@@ -72,7 +73,7 @@ class EmailService {
    * Generate 6-digit verification code
    */
   generateVerificationCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    return crypto.randomInt(100000, 1000000).toString();
   }
 
   /**
@@ -317,6 +318,491 @@ class EmailService {
       text,
     });
   }
+
+  /**
+   * Send account lockout notification
+   */
+  async sendAccountLockedEmail(email: string, name: string, unlockAt: Date): Promise<boolean> {
+    this.initialize();
+
+    const subject = `${this.appName} Security Alert: Account Temporarily Locked`;
+    const unlockTime = unlockAt.toUTCString();
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #fffbeb; border-left: 4px solid #f59e0b; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Account Temporarily Locked 🔒</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            We detected several failed login attempts on your ${this.appName} account, so we have
+            temporarily locked sign-in to protect it. You can try again after
+            <strong>${unlockTime}</strong>.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${this.appUrl}/forgot-password" 
+               style="background: #f59e0b; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Reset Your Password
+            </a>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If these attempts were not you, we recommend resetting your password and
+            enabling two-factor authentication.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Account Temporarily Locked
+      
+      Hi ${name},
+      
+      We detected several failed login attempts on your account and have temporarily locked sign-in.
+      You can try again after ${unlockTime}.
+      
+      If these attempts were not you, reset your password: ${this.appUrl}/forgot-password
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send passwordless sign-in link and code
+   */
+  async sendMagicLink(email: string, name: string, link: string, code: string, expiresInMinutes: number): Promise<boolean> {
+    this.initialize();
+
+    const subject = `Your ${this.appName} Sign-In Link`;
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #f0f9ff; border-left: 4px solid #2563eb; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Sign In to ${this.appName} ✨</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            Click the button below to sign in. No password needed.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${link}" 
+               style="background: #2563eb; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Sign In
+            </a>
+          </div>
+
+          <p style="color: #475569; line-height: 1.6;">
+            Or enter this code on the sign-in page:
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <div style="background: #2563eb; color: white; padding: 20px; border-radius: 10px; 
+                        display: inline-block; font-size: 32px; font-weight: bold; letter-spacing: 8px;">
+              ${code}
+            </div>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px;">
+            <strong>This link and code will expire in ${expiresInMinutes} minutes and can only be used once.</strong>
+          </p>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If you didn't request this, you can safely ignore this email.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Sign In
+      
+      Hi ${name},
+      
+      Sign in with this link: ${link}
+      
+      Or enter this code: ${code}
+      
+      This link and code will expire in ${expiresInMinutes} minutes and can only be used once.
+      
+      If you didn't request this, you can safely ignore this email.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send confirmation code to a new email address
+   */
+  async sendEmailChangeCode(email: string, name: string, code: string, expiresInMinutes: number): Promise<boolean> {
+    this.initialize();
+
+    const subject = `Confirm Your New ${this.appName} Email: ${code}`;
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #f0f9ff; border-left: 4px solid #2563eb; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Confirm Your New Email 📧</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            You asked to use this address for your ${this.appName} account.
+            Enter the code below to confirm the change:
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <div style="background: #2563eb; color: white; padding: 20px; border-radius: 10px; 
+                        display: inline-block; font-size: 32px; font-weight: bold; letter-spacing: 8px;">
+              ${code}
+            </div>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px;">
+            <strong>This code will expire in ${expiresInMinutes} minutes.</strong>
+          </p>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If you didn't request this change, please ignore this email.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Confirm Your New Email
+      
+      Hi ${name},
+      
+      Your confirmation code is: ${code}
+      
+      This code will expire in ${expiresInMinutes} minutes.
+      
+      If you didn't request this change, please ignore this email.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Notify the current email address about a requested change, with an undo link
+   */
+  async sendEmailChangeNotice(email: string, name: string, newEmail: string, undoLink: string): Promise<boolean> {
+    this.initialize();
+
+    const subject = `${this.appName} Security Alert: Email Change Requested`;
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #fef2f2; border-left: 4px solid #ef4444; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Email Change Requested 🔐</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            A request was made to change the email address on your ${this.appName} account
+            to <strong>${newEmail}</strong>.
+          </p>
+
+          <p style="color: #475569; line-height: 1.6;">
+            If this wasn't you, undo the change right away:
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${undoLink}" 
+               style="background: #ef4444; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Undo Email Change
+            </a>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If you made this request, no action is needed.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Email Change Requested
+      
+      Hi ${name},
+      
+      A request was made to change the email address on your account to ${newEmail}.
+      
+      If this wasn't you, undo the change: ${undoLink}
+      
+      If you made this request, no action is needed.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send data export ready notification
+   */
+  async sendDataExportReady(email: string, name: string, downloadLink: string, expiresAt: Date): Promise<boolean> {
+    this.initialize();
+
+    const subject = `Your ${this.appName} Data Export Is Ready`;
+    const expiryTime = expiresAt.toUTCString();
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #f8fafc; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Your Data Export Is Ready 📦</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            The copy of your ${this.appName} data you requested is ready to download.
+            The link expires on <strong>${expiryTime}</strong>.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${downloadLink}" 
+               style="background: #2563eb; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Download Your Data
+            </a>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If you didn't request this export, please change your password and contact support.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Your Data Export Is Ready
+      
+      Hi ${name},
+      
+      The copy of your data you requested is ready to download: ${downloadLink}
+      
+      The link expires on ${expiryTime}.
+      
+      If you didn't request this export, please change your password and contact support.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send account deletion confirmation with restore link
+   */
+  async sendAccountDeletionScheduled(email: string, name: string, restoreLink: string, purgeAt: Date): Promise<boolean> {
+    this.initialize();
+
+    const subject = `Your ${this.appName} Account Is Scheduled for Deletion`;
+    const purgeTime = purgeAt.toUTCString();
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #fef2f2; border-left: 4px solid #ef4444; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">Account Scheduled for Deletion 🗑️</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi ${name},
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            Your ${this.appName} account has been deleted and you have been signed out everywhere.
+            Your data will be permanently removed on <strong>${purgeTime}</strong>.
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            Changed your mind? Restore your account before then, or simply log in again.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${restoreLink}" 
+               style="background: #2563eb; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Restore My Account
+            </a>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            If you didn't delete your account, restore it now and change your password.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Account Scheduled for Deletion
+      
+      Hi ${name},
+      
+      Your account has been deleted and will be permanently removed on ${purgeTime}.
+      
+      Changed your mind? Restore your account: ${restoreLink}
+      Logging in again before then also restores it.
+      
+      If you didn't delete your account, restore it now and change your password.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send workspace invitation with accept and decline links
+   */
+  async sendWorkspaceInvitation(
+    email: string,
+    inviterName: string,
+    workspaceName: string,
+    role: string,
+    acceptLink: string,
+    declineLink: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    this.initialize();
+
+    const subject = `${inviterName} invited you to ${workspaceName} on ${this.appName}`;
+    const expiryTime = expiresAt.toUTCString();
+    
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0;">🎬 ${this.appName}</h1>
+        </div>
+
+        <div style="background: #f8fafc; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+          <h2 style="color: #1e293b; margin-top: 0;">You're Invited to a Workspace 🤝</h2>
+          <p style="color: #475569; line-height: 1.6;">
+            Hi,
+          </p>
+          <p style="color: #475569; line-height: 1.6;">
+            ${inviterName} invited you to join <strong>${workspaceName}</strong> on ${this.appName}
+            as ${role === 'admin' ? 'an' : 'a'} <strong>${role}</strong>.
+            The invitation expires on <strong>${expiryTime}</strong>.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${acceptLink}" 
+               style="background: #2563eb; color: white; padding: 12px 30px; text-decoration: none;
+                      border-radius: 6px; display: inline-block; font-weight: bold;">
+              Accept Invitation
+            </a>
+          </div>
+
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 0;">
+            Not interested? <a href="${declineLink}" style="color: #64748b;">Decline the invitation</a>.
+            You'll need to sign in or create an account with this email address to accept.
+          </p>
+        </div>
+
+        <div style="text-align: center; color: #94a3b8; font-size: 12px;">
+          <p>© 2024 ${this.appName}. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      ${this.appName} - Workspace Invitation
+      
+      Hi,
+      
+      ${inviterName} invited you to join ${workspaceName} as ${role === 'admin' ? 'an' : 'a'} ${role}.
+      
+      Accept: ${acceptLink}
+      Decline: ${declineLink}
+      
+      The invitation expires on ${expiryTime}.
+      You'll need to sign in or create an account with this email address to accept.
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
 }
 
 // Export singleton instance
@@ -1,22 +1,73 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { JWTPayload } from '../types';
+import { getKeyRing } from './keyring';
 
-// Get JWT secrets from environment variables
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'fallback-refresh-secret';
-const JWT_EXPIRE = process.env.JWT_EXPIRE || '7d';
-const JWT_REFRESH_EXPIRE = process.env.JWT_REFRESH_EXPIRE || '30d';
+const JWT_ISSUER = 'ai-videogen-api';
+const JWT_AUDIENCE = 'ai-videogen-client';
+const MFA_AUDIENCE = 'ai-videogen-mfa';
+export const MFA_TOKEN_EXPIRE_SECONDS = 5 * 60;
+
+let ephemeralRefreshSecret: string | null = null;
+
+/**
+ * Refresh tokens never leave this API, so they stay on a shared HMAC secret.
+ * Read lazily so values from dotenv are picked up.
+ */
+const getRefreshSecret = (): string => {
+  if (process.env.JWT_REFRESH_SECRET) {
+    return process.env.JWT_REFRESH_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_REFRESH_SECRET must be set in production');
+  }
+
+  if (!ephemeralRefreshSecret) {
+    console.warn('⚠️  JWT_REFRESH_SECRET is not set - using an ephemeral secret. Refresh tokens will not survive a restart.');
+    ephemeralRefreshSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return ephemeralRefreshSecret;
+};
+
+/**
+ * Convert a duration like '15m', '7d' or '3600' to seconds
+ */
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+)\s*(s|m|h|d|w)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  return parseInt(match[1]) * units[match[2] || 's'];
+};
+
+/**
+ * Sign claims with the keyring's active key
+ */
+const signWithKeyRing = (claims: Record<string, unknown>, expiresInSeconds: number, audience: string): string => {
+  const now = Math.floor(Date.now() / 1000);
+
+  return getKeyRing().sign({
+    ...claims,
+    iat: now,
+    exp: now + expiresInSeconds,
+    iss: JWT_ISSUER,
+    aud: audience,
+  });
+};
 
 /**
  * Generate Access Token
+ * Every access token gets its own `jti` so it can be revoked individually,
+ * and a `kid` header so it can be verified against the published JWKS.
  */
-export const generateAccessToken = (payload: JWTPayload): string => {
+export const generateAccessToken = (payload: JWTPayload, expiresInSeconds?: number): string => {
   try {
-    return jwt.sign(payload, JWT_SECRET, {
-      expiresIn: JWT_EXPIRE,
-      issuer: 'ai-videogen-api',
-      audience: 'ai-videogen-client',
-    } as jwt.SignOptions);
+    const { exp, ...claims } = payload;
+    const expiresIn = expiresInSeconds ?? parseDuration(process.env.JWT_EXPIRE || '7d');
+    return signWithKeyRing({ ...claims, jti: crypto.randomUUID() }, expiresIn, JWT_AUDIENCE);
   } catch (error) {
     throw new Error('Error generating access token');
   }
@@ -24,13 +75,16 @@ export const generateAccessToken = (payload: JWTPayload): string => {
 
 /**
  * Generate Refresh Token
+ * The `jti` identifies this token within its session so rotation can detect reuse.
  */
-export const generateRefreshToken = (payload: JWTPayload): string => {
+export const generateRefreshToken = (payload: JWTPayload, jti: string): string => {
   try {
-    return jwt.sign(payload, JWT_REFRESH_SECRET, {
-      expiresIn: JWT_REFRESH_EXPIRE,
-      issuer: 'ai-videogen-api',
-      audience: 'ai-videogen-client',
+    const { exp, ...claims } = payload;
+    return jwt.sign({ ...claims, jti }, getRefreshSecret(), {
+      expiresIn: process.env.JWT_REFRESH_EXPIRE || '30d',
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      algorithm: 'HS256',
     } as jwt.SignOptions);
   } catch (error) {
     throw new Error('Error generating refresh token');
@@ -40,10 +94,10 @@ export const generateRefreshToken = (payload: JWTPayload): string => {
 /**
  * Generate Both Tokens
  */
-export const generateTokens = (payload: JWTPayload) => {
+export const generateTokens = (payload: JWTPayload, refreshTokenId: string) => {
   return {
     accessToken: generateAccessToken(payload),
-    refreshToken: generateRefreshToken(payload),
+    refreshToken: generateRefreshToken(payload, refreshTokenId),
   };
 };
 
@@ -52,9 +106,9 @@ export const generateTokens = (payload: JWTPayload) => {
  */
 export const verifyAccessToken = (token: string): JWTPayload => {
   try {
-    return jwt.verify(token, JWT_SECRET, {
-      issuer: 'ai-videogen-api',
-      audience: 'ai-videogen-client',
+    return getKeyRing().verify(token, {
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
     }) as JWTPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -72,9 +126,10 @@ export const verifyAccessToken = (token: string): JWTPayload => {
  */
 export const verifyRefreshToken = (token: string): JWTPayload => {
   try {
-    return jwt.verify(token, JWT_REFRESH_SECRET, {
-      issuer: 'ai-videogen-api',
-      audience: 'ai-videogen-client',
+    return jwt.verify(token, getRefreshSecret(), {
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      algorithms: ['HS256'],
     }) as JWTPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -87,6 +142,42 @@ export const verifyRefreshToken = (token: string): JWTPayload => {
   }
 };
 
+/**
+ * Generate MFA challenge token (proves the password step succeeded)
+ * Uses a separate audience so it can never be used as an access token.
+ * The `jti` identifies the challenge so failed guesses can be counted against it.
+ */
+export const generateMfaToken = (userId: string): string => {
+  try {
+    return signWithKeyRing({ userId, purpose: 'mfa', jti: crypto.randomUUID() }, MFA_TOKEN_EXPIRE_SECONDS, MFA_AUDIENCE);
+  } catch (error) {
+    throw new Error('Error generating MFA token');
+  }
+};
+
+/**
+ * Verify MFA challenge token
+ */
+export const verifyMfaToken = (token: string): { userId: string; jti: string } => {
+  try {
+    const decoded = getKeyRing().verify(token, {
+      issuer: JWT_ISSUER,
+      audience: MFA_AUDIENCE,
+    }) as { userId: string; purpose: string; jti?: string };
+
+    if (decoded.purpose !== 'mfa' || !decoded.jti) {
+      throw new Error('Invalid MFA token');
+    }
+
+    return { userId: decoded.userId, jti: decoded.jti };
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('MFA token expired');
+    }
+    throw new Error('Invalid MFA token');
+  }
+};
+
 /**
  * Decode Token (without verification)
  */
@@ -142,12 +233,16 @@ export const extractTokenFromHeader = (authHeader: string | undefined): string |
 /**
  * Create JWT Payload from User
  */
-export const createJWTPayload = (user: any): JWTPayload => {
+export const createJWTPayload = (user: any, sessionId?: string, permissions: string[] = []): JWTPayload => {
   return {
     userId: user._id.toString(),
     id: user._id.toString(),
     email: user.email,
     plan: user.plan,
     isAdmin: user.isAdmin,
+    roles: user.roles || [],
+    permissions,
+    tokenVersion: user.tokenVersion || 0,
+    ...(sessionId && { sid: sessionId }),
   };
 };
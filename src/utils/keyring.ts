@@ -0,0 +1,273 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+
+/**
+ * JWT signing keyring
+ *
+ * Keys come from JWT_KEYRING (JSON) or JWT_KEYRING_FILE (path to JSON):
+ *   { "keys": [{ "kid": "2025-01", "alg": "EdDSA", "status": "active", "privateKeyFile": "keys/2025-01.pem" },
+ *              { "kid": "2024-07", "alg": "RS256", "status": "retiring", "publicKey": "-----BEGIN PUBLIC KEY-----..." }] }
+ *
+ * The first active key signs new tokens. Retiring keys only verify, so tokens
+ * issued before a rotation keep working until they expire. JWT_SECRET, when
+ * set, is kept as a legacy HS256 key for tokens issued without a `kid`.
+ */
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+export type KeyStatus = 'active' | 'retiring';
+
+export interface KeyringKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  status: KeyStatus;
+  privateKey?: KeyObject;
+  publicKey?: KeyObject;
+  secret?: Buffer;
+}
+
+interface KeyringKeyConfig {
+  kid: string;
+  alg: JwtAlgorithm;
+  status?: KeyStatus;
+  privateKey?: string;
+  privateKeyFile?: string;
+  publicKey?: string;
+  publicKeyFile?: string;
+}
+
+export interface JsonWebKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+  kty: string;
+  [key: string]: unknown;
+}
+
+const SUPPORTED_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256', 'EdDSA'];
+const LEGACY_KID = 'legacy-hs256';
+
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString('base64url');
+
+const readPem = (inline?: string, file?: string): string | undefined => {
+  if (inline) return inline.replace(/\\n/g, '\n');
+  if (file) return fs.readFileSync(file, 'utf8');
+  return undefined;
+};
+
+export class KeyRing {
+  private keys: KeyringKey[];
+
+  constructor(keys: KeyringKey[]) {
+    if (!keys.some(key => key.status === 'active' && (key.privateKey || key.secret))) {
+      throw new Error('JWT keyring has no active signing key');
+    }
+    this.keys = keys;
+  }
+
+  /**
+   * Key used to sign new tokens
+   */
+  getSigningKey(): KeyringKey {
+    return this.keys.find(key => key.status === 'active' && (key.privateKey || key.secret))!;
+  }
+
+  /**
+   * Key used to verify a token, selected by `kid` (legacy tokens have none)
+   */
+  getVerificationKey(kid?: string): KeyringKey | undefined {
+    return this.keys.find(key => key.kid === (kid || LEGACY_KID));
+  }
+
+  /**
+   * Public keys in JWKS format (symmetric keys are never published)
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: this.keys
+        .filter(key => key.publicKey)
+        .map(key => ({
+          ...(key.publicKey!.export({ format: 'jwk' }) as { kty: string }),
+          kid: key.kid,
+          alg: key.alg,
+          use: 'sig' as const,
+        })),
+    };
+  }
+
+  /**
+   * Sign a payload as a compact JWS
+   */
+  sign(payload: Record<string, unknown>): string {
+    const key = this.getSigningKey();
+    const header = { alg: key.alg, typ: 'JWT', ...(key.kid !== LEGACY_KID && { kid: key.kid }) };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+
+    return `${signingInput}.${base64url(createSignature(key, signingInput))}`;
+  }
+
+  /**
+   * Verify a compact JWS and its registered claims.
+   * Throws jsonwebtoken's error classes so callers can handle both the same way.
+   */
+  verify(token: string, options: { issuer: string; audience: string }): Record<string, any> {
+    const parts = (token || '').split('.');
+    if (parts.length !== 3) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    let header: { alg?: string; kid?: string };
+    let payload: Record<string, any>;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch (error) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const key = this.getVerificationKey(header.kid);
+    // The algorithm is pinned to the key, never taken from the token
+    if (!key || header.alg !== key.alg) {
+      throw new jwt.JsonWebTokenError('invalid signature');
+    }
+
+    if (!verifySignature(key, `${parts[0]}.${parts[1]}`, Buffer.from(parts[2], 'base64url'))) {
+      throw new jwt.JsonWebTokenError('invalid signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.nbf === 'number' && payload.nbf > now) {
+      throw new jwt.NotBeforeError('jwt not active', new Date(payload.nbf * 1000));
+    }
+    if (typeof payload.exp === 'number' && payload.exp <= now) {
+      throw new jwt.TokenExpiredError('jwt expired', new Date(payload.exp * 1000));
+    }
+    if (payload.iss !== options.issuer) {
+      throw new jwt.JsonWebTokenError(`jwt issuer invalid. expected: ${options.issuer}`);
+    }
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new jwt.JsonWebTokenError(`jwt audience invalid. expected: ${options.audience}`);
+    }
+
+    return payload;
+  }
+}
+
+const createSignature = (key: KeyringKey, input: string): Buffer => {
+  switch (key.alg) {
+    case 'HS256':
+      return crypto.createHmac('sha256', key.secret!).update(input).digest();
+    case 'RS256':
+      return crypto.sign('sha256', Buffer.from(input), key.privateKey!);
+    case 'ES256':
+      return crypto.sign('sha256', Buffer.from(input), { key: key.privateKey!, dsaEncoding: 'ieee-p1363' });
+    case 'EdDSA':
+      return crypto.sign(null, Buffer.from(input), key.privateKey!);
+  }
+};
+
+const verifySignature = (key: KeyringKey, input: string, signature: Buffer): boolean => {
+  try {
+    switch (key.alg) {
+      case 'HS256': {
+        const expected = crypto.createHmac('sha256', key.secret!).update(input).digest();
+        return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+      }
+      case 'RS256':
+        return crypto.verify('sha256', Buffer.from(input), key.publicKey!, signature);
+      case 'ES256':
+        return crypto.verify('sha256', Buffer.from(input), { key: key.publicKey!, dsaEncoding: 'ieee-p1363' }, signature);
+      case 'EdDSA':
+        return crypto.verify(null, Buffer.from(input), key.publicKey!, signature);
+    }
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Build a keyring key from its JSON config, checking the key type matches the algorithm
+ */
+const buildKey = (config: KeyringKeyConfig): KeyringKey => {
+  if (!config.kid || !SUPPORTED_ALGORITHMS.includes(config.alg) || config.alg === 'HS256') {
+    throw new Error(`Invalid JWT keyring entry: ${config.kid || '(missing kid)'}`);
+  }
+
+  const privatePem = readPem(config.privateKey, config.privateKeyFile);
+  const publicPem = readPem(config.publicKey, config.publicKeyFile);
+  const privateKey = privatePem ? crypto.createPrivateKey(privatePem) : undefined;
+  const publicKey = publicPem ? crypto.createPublicKey(publicPem) : privateKey && crypto.createPublicKey(privateKey);
+
+  if (!publicKey) {
+    throw new Error(`JWT keyring entry ${config.kid} needs a private or public key`);
+  }
+
+  const expectedType = { RS256: 'rsa', ES256: 'ec', EdDSA: 'ed25519' }[config.alg];
+  if (publicKey.asymmetricKeyType !== expectedType) {
+    throw new Error(`JWT keyring entry ${config.kid} is not a valid ${config.alg} key`);
+  }
+
+  return {
+    kid: config.kid,
+    alg: config.alg,
+    status: config.status || 'active',
+    privateKey,
+    publicKey,
+  };
+};
+
+/**
+ * Load the keyring from the environment
+ */
+export const loadKeyRing = (): KeyRing => {
+  const source = process.env.JWT_KEYRING
+    || (process.env.JWT_KEYRING_FILE && fs.readFileSync(process.env.JWT_KEYRING_FILE, 'utf8'));
+
+  const keys: KeyringKey[] = [];
+  if (source) {
+    const parsed = JSON.parse(source) as { keys: KeyringKeyConfig[] };
+    keys.push(...(parsed.keys || []).map(buildKey));
+  }
+
+  if (process.env.JWT_SECRET) {
+    // Signs only when no asymmetric key is configured
+    keys.push({
+      kid: LEGACY_KID,
+      alg: 'HS256',
+      status: keys.length > 0 ? 'retiring' : 'active',
+      secret: Buffer.from(process.env.JWT_SECRET),
+    });
+  }
+
+  if (keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No JWT signing key configured. Set JWT_KEYRING, JWT_KEYRING_FILE or JWT_SECRET.');
+    }
+
+    console.warn('⚠️  No JWT signing key configured - using an ephemeral EdDSA key. Tokens will not survive a restart.');
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    keys.push({ kid: `ephemeral-${crypto.randomBytes(4).toString('hex')}`, alg: 'EdDSA', status: 'active', privateKey, publicKey });
+  }
+
+  return new KeyRing(keys);
+};
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * Get the process-wide keyring (loaded on first use, after dotenv has run)
+ */
+export const getKeyRing = (): KeyRing => {
+  if (!keyRing) {
+    keyRing = loadKeyRing();
+  }
+  return keyRing;
+};
+
+/**
+ * Replace the process-wide keyring (e.g. after rotating keys)
+ */
+export const setKeyRing = (ring: KeyRing): void => {
+  keyRing = ring;
+};
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { passwordHashingConfig } from '../config/security';
+import { PasswordHasher } from '../types';
+
+/**
+ * Password hashing
+ *
+ * Stored hashes identify their algorithm and parameters:
+ *   $2b$10$...                              bcrypt (standard modular crypt format)
+ *   $scrypt$ln=15,r=8,p=1$<salt>$<hash>      scrypt (base64 salt and key)
+ *   $pepper$v1$2b$10$...                    any of the above, computed over HMAC(pepper, password)
+ *
+ * The pepper id lets the pepper be rotated: hashes made with a previous pepper
+ * still verify while it is listed in PASSWORD_PREVIOUS_PEPPERS, and are
+ * replaced on the next successful login.
+ */
+
+const PEPPER_PATTERN = /^\$pepper\$([^$]+)(\$.+)$/;
+const SCRYPT_PATTERN = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/;
+const BCRYPT_PATTERN = /^\$2[aby]\$(\d{2})\$/;
+const SCRYPT_SALT_BYTES = 16;
+
+export class BcryptHasher implements PasswordHasher {
+  readonly id = 'bcrypt';
+
+  constructor(private rounds: number) {}
+
+  recognizes(encoded: string): boolean {
+    return BCRYPT_PATTERN.test(encoded);
+  }
+
+  async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  async verify(password: string, encoded: string): Promise<boolean> {
+    return bcrypt.compare(password, encoded);
+  }
+
+  isOutdated(encoded: string): boolean {
+    const match = BCRYPT_PATTERN.exec(encoded);
+    return !match || parseInt(match[1]) !== this.rounds;
+  }
+}
+
+export interface ScryptParams {
+  logCost: number;
+  blockSize: number;
+  parallelization: number;
+  keyLength: number;
+}
+
+export class ScryptHasher implements PasswordHasher {
+  readonly id = 'scrypt';
+
+  constructor(private params: ScryptParams) {}
+
+  recognizes(encoded: string): boolean {
+    return SCRYPT_PATTERN.test(encoded);
+  }
+
+  async hash(password: string): Promise<string> {
+    const { logCost, blockSize, parallelization, keyLength } = this.params;
+    const salt = crypto.randomBytes(SCRYPT_SALT_BYTES);
+    const key = await this.derive(password, salt, logCost, blockSize, parallelization, keyLength);
+    return `$scrypt$ln=${logCost},r=${blockSize},p=${parallelization}$${salt.toString('base64')}$${key.toString('base64')}`;
+  }
+
+  async verify(password: string, encoded: string): Promise<boolean> {
+    const match = SCRYPT_PATTERN.exec(encoded);
+    if (!match) return false;
+
+    const expected = Buffer.from(match[5], 'base64');
+    const key = await this.derive(
+      password,
+      Buffer.from(match[4], 'base64'),
+      parseInt(match[1]),
+      parseInt(match[2]),
+      parseInt(match[3]),
+      expected.length
+    );
+    return crypto.timingSafeEqual(key, expected);
+  }
+
+  isOutdated(encoded: string): boolean {
+    const match = SCRYPT_PATTERN.exec(encoded);
+    if (!match) return true;
+
+    const { logCost, blockSize, parallelization, keyLength } = this.params;
+    return parseInt(match[1]) !== logCost
+      || parseInt(match[2]) !== blockSize
+      || parseInt(match[3]) !== parallelization
+      || Buffer.from(match[5], 'base64').length !== keyLength;
+  }
+
+  private derive(
+    password: string,
+    salt: Buffer,
+    logCost: number,
+    blockSize: number,
+    parallelization: number,
+    keyLength: number
+  ): Promise<Buffer> {
+    const N = 2 ** logCost;
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(
+        password,
+        salt,
+        keyLength,
+        // Node's default maxmem (32MB) is exactly the cost of N=2^15, r=8 - leave headroom
+        { N, r: blockSize, p: parallelization, maxmem: 256 * N * blockSize },
+        (error, key) => (error ? reject(error) : resolve(key))
+      );
+    });
+  }
+}
+
+/**
+ * Parse PASSWORD_PREVIOUS_PEPPERS ("id:secret,id:secret")
+ */
+const parsePeppers = (value: string): Map<string, string> => {
+  const peppers = new Map<string, string>();
+  value.split(',').map(pair => pair.trim()).filter(Boolean).forEach(pair => {
+    const separator = pair.indexOf(':');
+    if (separator > 0) {
+      peppers.set(pair.slice(0, separator), pair.slice(separator + 1));
+    }
+  });
+  return peppers;
+};
+
+export class PasswordHashing {
+  private hashers = new Map<string, PasswordHasher>();
+  private peppers: Map<string, string>;
+
+  constructor(
+    private config: typeof passwordHashingConfig = passwordHashingConfig,
+    hashers: PasswordHasher[] = [
+      new BcryptHasher(config.bcryptRounds),
+      new ScryptHasher(config.scrypt),
+    ]
+  ) {
+    hashers.forEach(hasher => this.register(hasher));
+
+    this.peppers = parsePeppers(config.previousPeppers);
+    if (config.pepper) {
+      this.peppers.set(config.pepperId, config.pepper);
+    }
+  }
+
+  /**
+   * Add or replace an algorithm
+   */
+  register(hasher: PasswordHasher): void {
+    this.hashers.set(hasher.id, hasher);
+  }
+
+  /**
+   * Hash a password with the configured algorithm and pepper
+   */
+  async hash(password: string): Promise<string> {
+    const hasher = this.hashers.get(this.config.algorithm);
+    if (!hasher) {
+      throw new Error(`Unknown password hash algorithm: ${this.config.algorithm}`);
+    }
+
+    if (!this.config.pepper) {
+      return hasher.hash(password);
+    }
+
+    const inner = await hasher.hash(this.applyPepper(password, this.config.pepper));
+    return `$pepper$${this.config.pepperId}${inner}`;
+  }
+
+  /**
+   * Check a password against a stored hash of any supported algorithm
+   */
+  async verify(password: string, encoded: string): Promise<boolean> {
+    if (!encoded) return false;
+
+    const { pepperId, inner } = this.unwrap(encoded);
+    const hasher = this.findHasher(inner);
+    if (!hasher) return false;
+
+    if (pepperId === undefined) {
+      return hasher.verify(password, inner);
+    }
+
+    const pepper = this.peppers.get(pepperId);
+    if (!pepper) {
+      console.error(`❌ Password hash uses unknown pepper "${pepperId}"`);
+      return false;
+    }
+    return hasher.verify(this.applyPepper(password, pepper), inner);
+  }
+
+  /**
+   * Whether a stored hash should be replaced: other algorithm, other cost, or other pepper
+   */
+  needsRehash(encoded: string): boolean {
+    if (!encoded) return false;
+
+    const { pepperId, inner } = this.unwrap(encoded);
+    const currentPepperId = this.config.pepper ? this.config.pepperId : undefined;
+    if (pepperId !== currentPepperId) return true;
+
+    const hasher = this.findHasher(inner);
+    return !hasher || hasher.id !== this.config.algorithm || hasher.isOutdated(inner);
+  }
+
+  private unwrap(encoded: string): { pepperId?: string; inner: string } {
+    const match = PEPPER_PATTERN.exec(encoded);
+    return match ? { pepperId: match[1], inner: match[2] } : { inner: encoded };
+  }
+
+  private findHasher(encoded: string): PasswordHasher | undefined {
+    return [...this.hashers.values()].find(hasher => hasher.recognizes(encoded));
+  }
+
+  // HMAC output is fixed-length, which also keeps peppered input inside bcrypt's 72-byte limit
+  private applyPepper(password: string, pepper: string): string {
+    return crypto.createHmac('sha256', pepper).update(password).digest('base64');
+  }
+}
+
+// Export singleton instance
+export const passwordHashing = new PasswordHashing();
@@ -0,0 +1,51 @@
+import { Request } from 'express';
+import { DeviceInfo, RequestContext } from '../types';
+
+/**
+ * Request context helpers
+ */
+
+/**
+ * Extract client IP and user-agent from a request
+ */
+export const getRequestContext = (req: Request): RequestContext => {
+  return {
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+};
+
+/**
+ * Best-effort user-agent parsing for display purposes only
+ */
+export const parseUserAgent = (userAgent: string | undefined): DeviceInfo => {
+  if (!userAgent) {
+    return { browser: 'Unknown', os: 'Unknown', type: 'unknown' };
+  }
+
+  const ua = userAgent.toLowerCase();
+
+  let browser = 'Unknown';
+  if (ua.includes('edg/')) browser = 'Edge';
+  else if (ua.includes('opr/') || ua.includes('opera')) browser = 'Opera';
+  else if (ua.includes('firefox/')) browser = 'Firefox';
+  else if (ua.includes('chrome/') || ua.includes('crios/')) browser = 'Chrome';
+  else if (ua.includes('safari/')) browser = 'Safari';
+  else if (ua.includes('postman')) browser = 'Postman';
+  else if (ua.includes('curl/')) browser = 'curl';
+
+  let os = 'Unknown';
+  if (ua.includes('windows')) os = 'Windows';
+  else if (ua.includes('iphone') || ua.includes('ipad') || ua.includes('ios')) os = 'iOS';
+  else if (ua.includes('android')) os = 'Android';
+  else if (ua.includes('mac os') || ua.includes('macintosh')) os = 'macOS';
+  else if (ua.includes('linux')) os = 'Linux';
+
+  let type: DeviceInfo['type'] = 'desktop';
+  if (/bot|crawler|spider/.test(ua)) type = 'bot';
+  else if (ua.includes('ipad') || ua.includes('tablet')) type = 'tablet';
+  else if (ua.includes('mobi') || ua.includes('iphone') || ua.includes('android')) type = 'mobile';
+  else if (browser === 'Unknown' && os === 'Unknown') type = 'unknown';
+
+  return { browser, os, type };
+};
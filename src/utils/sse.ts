@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { videoEventsConfig } from '../config/videoGeneration';
+
+/**
+ * Server-Sent Events streams
+ */
+
+const RETRY_MS = 3000;
+
+export interface EventStream {
+  send(event: string, data: unknown, id?: string): void;
+  // Run when the stream ends, whichever side ends it
+  onClose(callback: () => void): void;
+  close(): void;
+}
+
+const openStreams = new Set<EventStream>();
+const streamsPerOwner = new Map<string, number>();
+
+// Returned when the client is already gone
+const closedStream: EventStream = {
+  send() {},
+  onClose(callback) {
+    callback();
+  },
+  close() {},
+};
+
+/**
+ * Switch a response to an event stream. `owner` (a user id) is limited to
+ * a few concurrent streams so abandoned tabs cannot pile up connections.
+ * If the client disconnected while the caller was awaiting, its 'close'
+ * has already fired, so an already closed stream is returned instead.
+ */
+export const openEventStream = (req: Request, res: Response, owner: string): EventStream => {
+  if (req.destroyed || res.closed) {
+    return closedStream;
+  }
+
+  const ownerStreams = streamsPerOwner.get(owner) || 0;
+  if (ownerStreams >= videoEventsConfig.maxStreamsPerUser) {
+    throw new AppError('Too many open event streams', 429);
+  }
+  streamsPerOwner.set(owner, ownerStreams + 1);
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const closeCallbacks: (() => void)[] = [];
+  let closed = false;
+
+  // Comment lines keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), videoEventsConfig.heartbeatMs);
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+
+    clearInterval(heartbeat);
+    openStreams.delete(stream);
+    const remaining = (streamsPerOwner.get(owner) || 1) - 1;
+    if (remaining > 0) {
+      streamsPerOwner.set(owner, remaining);
+    } else {
+      streamsPerOwner.delete(owner);
+    }
+    closeCallbacks.forEach(callback => callback());
+  };
+
+  const stream: EventStream = {
+    send(event, data, id) {
+      if (closed) return;
+      res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose(callback) {
+      if (closed) {
+        callback();
+      } else {
+        closeCallbacks.push(callback);
+      }
+    },
+    close() {
+      cleanup();
+      res.end();
+    },
+  };
+
+  openStreams.add(stream);
+  req.on('close', cleanup);
+
+  return stream;
+};
+
+/**
+ * End every open stream so the HTTP server can close (graceful shutdown).
+ * Clients reconnect to another instance with their Last-Event-ID.
+ */
+export const closeEventStreams = (): void => {
+  openStreams.forEach(stream => stream.close());
+};
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+
+/**
+ * TOTP (RFC 6238) and HOTP (RFC 4226) implementation
+ */
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+export interface TotpOptions {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  period?: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const DEFAULT_OPTIONS: Required<TotpOptions> = {
+  algorithm: 'sha1',
+  digits: 6,
+  period: 30,
+};
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+};
+
+/**
+ * Generate a random base32 secret (160 bits by default, as recommended by RFC 4226)
+ */
+export const generateTotpSecret = (bytes: number = 20): string => {
+  return base32Encode(crypto.randomBytes(bytes));
+};
+
+/**
+ * Generate an HOTP value for a counter (RFC 4226)
+ */
+export const generateHotp = (
+  secret: Buffer,
+  counter: number,
+  digits: number = DEFAULT_OPTIONS.digits,
+  algorithm: TotpAlgorithm = DEFAULT_OPTIONS.algorithm
+): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(algorithm, secret).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Get the TOTP time step for a timestamp
+ */
+export const getTotpStep = (timestampMs: number = Date.now(), period: number = DEFAULT_OPTIONS.period): number => {
+  return Math.floor(timestampMs / 1000 / period);
+};
+
+/**
+ * Generate a TOTP code (RFC 6238). `secret` is a base32 string or raw key bytes.
+ */
+export const generateTotp = (
+  secret: string | Buffer,
+  timestampMs: number = Date.now(),
+  options: TotpOptions = {}
+): string => {
+  const { algorithm, digits, period } = { ...DEFAULT_OPTIONS, ...options };
+  const key = typeof secret === 'string' ? base32Decode(secret) : secret;
+
+  return generateHotp(key, getTotpStep(timestampMs, period), digits, algorithm);
+};
+
+/**
+ * Verify a TOTP code, allowing `window` steps of clock drift either side.
+ * Returns the matched time step (for replay protection) or null.
+ */
+export const verifyTotp = (
+  secret: string | Buffer,
+  code: string,
+  window: number = 1,
+  timestampMs: number = Date.now(),
+  options: TotpOptions = {}
+): number | null => {
+  const { algorithm, digits, period } = { ...DEFAULT_OPTIONS, ...options };
+  const normalized = (code || '').replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = typeof secret === 'string' ? base32Decode(secret) : secret;
+  const currentStep = getTotpStep(timestampMs, period);
+  let matchedStep: number | null = null;
+
+  // Check every step in the window so timing does not reveal which one matched
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateHotp(key, step, digits, algorithm);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized)) && matchedStep === null) {
+      matchedStep = step;
+    }
+  }
+
+  return matchedStep;
+};
+
+/**
+ * Build an otpauth:// URI for authenticator apps
+ */
+export const buildOtpauthUri = (
+  secret: string,
+  accountName: string,
+  issuer: string,
+  options: TotpOptions = {}
+): string => {
+  const { algorithm, digits, period } = { ...DEFAULT_OPTIONS, ...options };
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: algorithm.toUpperCase(),
+    digits: digits.toString(),
+    period: period.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -1,9 +1,85 @@
-import { ValidationError } from '../types';
+import fs from 'fs';
+import { PasswordCharacterClass, PasswordPolicy, ValidationError } from '../types';
+import { passwordPolicyConfig } from '../config/security';
+import { COMMON_PASSWORDS } from '../config/commonPasswords';
 
 /**
  * Validation utility functions
  */
 
+/**
+ * Details about the account a password belongs to, used to reject passwords built from them
+ */
+export interface PasswordContext {
+  name?: string;
+  email?: string;
+}
+
+const CHARACTER_CLASS_RULES: Record<PasswordCharacterClass, { pattern: RegExp; label: string }> = {
+  lowercase: { pattern: /[a-z]/, label: 'lowercase letter' },
+  uppercase: { pattern: /[A-Z]/, label: 'uppercase letter' },
+  letter: { pattern: /[a-zA-Z]/, label: 'letter' },
+  digit: { pattern: /\d/, label: 'number' },
+  symbol: { pattern: /[^a-zA-Z0-9\s]/, label: 'symbol' },
+};
+
+// Fragments shorter than this (e.g. "Al") are too likely to appear by chance
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+let commonPasswords: Set<string> | null = null;
+
+/**
+ * Built-in blocklist plus any extra entries from PASSWORD_BLOCKLIST_FILE (one per line)
+ */
+const getCommonPasswords = (): Set<string> => {
+  if (commonPasswords) return commonPasswords;
+
+  commonPasswords = new Set(COMMON_PASSWORDS);
+
+  const file = process.env.PASSWORD_BLOCKLIST_FILE;
+  if (file) {
+    try {
+      fs.readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim().toLowerCase())
+        .filter(Boolean)
+        .forEach(entry => commonPasswords!.add(entry));
+    } catch (error: any) {
+      console.error('❌ Could not read password blocklist file:', error.message);
+    }
+  }
+
+  return commonPasswords;
+};
+
+/**
+ * Check a password against the common-password blocklist (case-insensitive)
+ */
+export const isCommonPassword = (password: string): boolean => {
+  return getCommonPasswords().has(password.toLowerCase());
+};
+
+/**
+ * Check whether a password contains the user's name or the local part of their email
+ */
+export const containsPersonalInfo = (password: string, context: PasswordContext): boolean => {
+  const lowered = password.toLowerCase();
+  const fragments: string[] = [];
+
+  if (context.name) {
+    fragments.push(...context.name.toLowerCase().split(/[\s'-]+/));
+  }
+
+  if (context.email) {
+    const localPart = context.email.toLowerCase().split('@')[0];
+    fragments.push(localPart, ...localPart.split(/[._+-]+/));
+  }
+
+  return fragments.some(fragment =>
+    fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH && lowered.includes(fragment)
+  );
+};
+
 /**
  * Validate Email Format
  */
@@ -13,33 +89,43 @@ export const isValidEmail = (email: string): boolean => {
 };
 
 /**
- * Validate Password Strength
+ * Validate Password Strength against the configured policy.
+ * Reports every rule the password breaks, not just the first.
  */
-export const validatePassword = (password: string): ValidationError[] => {
+export const validatePassword = (
+  password: string,
+  context: PasswordContext = {},
+  field: string = 'password',
+  policy: PasswordPolicy = passwordPolicyConfig
+): ValidationError[] => {
   const errors: ValidationError[] = [];
 
   if (!password) {
-    errors.push({ field: 'password', message: 'Password is required' });
+    errors.push({ field, message: 'Password is required' });
     return errors;
   }
 
-  if (password.length < 6) {
-    errors.push({ field: 'password', message: 'Password must be at least 6 characters long' });
+  if (password.length < policy.minLength) {
+    errors.push({ field, message: `Password must be at least ${policy.minLength} characters long` });
   }
 
-  if (password.length > 128) {
-    errors.push({ field: 'password', message: 'Password cannot be more than 128 characters long' });
+  if (password.length > policy.maxLength) {
+    errors.push({ field, message: `Password cannot be more than ${policy.maxLength} characters long` });
   }
 
-  // Check for at least one letter and one number (optional for basic validation)
-  const hasLetter = /[a-zA-Z]/.test(password);
-  const hasNumber = /\d/.test(password);
+  policy.requiredClasses.forEach(characterClass => {
+    const rule = CHARACTER_CLASS_RULES[characterClass];
+    if (rule && !rule.pattern.test(password)) {
+      errors.push({ field, message: `Password must contain at least one ${rule.label}` });
+    }
+  });
 
-  if (!hasLetter || !hasNumber) {
-    errors.push({ 
-      field: 'password', 
-      message: 'Password should contain at least one letter and one number' 
-    });
+  if (policy.forbidPersonalInfo && containsPersonalInfo(password, context)) {
+    errors.push({ field, message: 'Password cannot contain your name or email address' });
+  }
+
+  if (policy.useBlocklist && isCommonPassword(password)) {
+    errors.push({ field, message: 'This password is too common. Please choose a less predictable one' });
   }
 
   return errors;
@@ -102,7 +188,7 @@ export const validateRegistration = (data: any): ValidationError[] => {
   if (!data.password) {
     errors.push({ field: 'password', message: 'Password is required' });
   } else {
-    errors.push(...validatePassword(data.password));
+    errors.push(...validatePassword(data.password, { name: data.name, email: data.email }));
   }
 
   return errors;
@@ -145,6 +231,43 @@ export const validateForgotPassword = (data: any): ValidationError[] => {
   return errors;
 };
 
+/**
+ * Validate Magic Link Request Data
+ */
+export const validateMagicLinkRequest = (data: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validate email
+  if (!data.email) {
+    errors.push({ field: 'email', message: 'Email is required' });
+  } else if (!isValidEmail(data.email)) {
+    errors.push({ field: 'email', message: 'Please provide a valid email address' });
+  }
+
+  return errors;
+};
+
+/**
+ * Validate Change Email Data
+ */
+export const validateChangeEmail = (data: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validate new email
+  if (!data.newEmail) {
+    errors.push({ field: 'newEmail', message: 'New email is required' });
+  } else if (!isValidEmail(data.newEmail)) {
+    errors.push({ field: 'newEmail', message: 'Please provide a valid email address' });
+  }
+
+  // Validate password
+  if (!data.password) {
+    errors.push({ field: 'password', message: 'Password is required' });
+  }
+
+  return errors;
+};
+
 /**
  * Validate Reset Password Data
  */
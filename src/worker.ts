@@ -0,0 +1,43 @@
+// Load environment variables before any module reads its configuration
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import connectDatabase from './config/database';
+import { startWorkers, stopWorkers } from './workers';
+import { videoEventService, MongoVideoEventBus } from './services/videoEvents.service';
+
+/**
+ * Standalone worker process. Run with JOB_WORKERS_IN_PROCESS=false on the
+ * API servers so jobs are only processed here.
+ */
+const startWorker = async () => {
+  try {
+    await connectDatabase();
+    // Events published here only reach the API's streams through mongo,
+    // whatever the shared environment says
+    videoEventService.setBus(new MongoVideoEventBus());
+    startWorkers();
+
+    const gracefulShutdown = async (signal: string) => {
+      console.log(`\n⚠️  Received ${signal}. Draining job workers...`);
+
+      // Force close after 10 seconds
+      setTimeout(() => {
+        console.error('❌ Could not drain workers in time, forcefully shutting down');
+        process.exit(1);
+      }, 10000);
+
+      await stopWorkers();
+      await mongoose.connection.close();
+      console.log('✅ Worker shutdown completed.');
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+  } catch (error) {
+    console.error('❌ Failed to start worker:', error);
+    process.exit(1);
+  }
+};
+
+startWorker();
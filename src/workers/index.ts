@@ -0,0 +1,26 @@
+/**
+ * Workers Index
+ * Background job workers, run in the API process or on their own (worker.ts)
+ */
+import { JOB_QUEUES } from '../config/jobQueue';
+import { JobWorker } from './jobWorker';
+import { processVideoGeneration, onVideoGenerationDead } from './videoGeneration.job';
+
+const workers: JobWorker[] = [
+  new JobWorker(JOB_QUEUES.videoGeneration, processVideoGeneration, { onDead: onVideoGenerationDead }),
+];
+
+export const startWorkers = (): void => {
+  workers.forEach(worker => worker.start());
+  console.log(`👷 Job workers started: ${workers.map(worker => worker.queue).join(', ')}`);
+};
+
+/**
+ * Stop claiming jobs and let running ones finish (graceful shutdown)
+ */
+export const stopWorkers = async (): Promise<void> => {
+  await Promise.all(workers.map(worker => worker.stop()));
+};
+
+export { JobWorker, delay } from './jobWorker';
+export type { JobHandler, JobContext, JobWorkerOptions } from './jobWorker';
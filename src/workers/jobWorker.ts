@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import os from 'os';
+import { jobQueueService } from '../services/jobQueue.service';
+import { jobQueueConfig } from '../config/jobQueue';
+import { IJob } from '../types';
+
+export interface JobContext {
+  // Aborted when shutdown can no longer wait; the handler should stop and throw
+  signal: AbortSignal;
+  // Leases are renewed automatically while the handler runs; call this to check it is still held
+  renewLease(): Promise<boolean>;
+}
+
+export type JobHandler = (job: IJob, context: JobContext) => Promise<void>;
+
+export interface JobWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  visibilityTimeoutMs: number;
+  // Called once a job is dead-lettered
+  onDead?: (job: IJob) => Promise<void>;
+}
+
+/**
+ * Wait, rejecting early if the signal is aborted
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Job aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Job aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs jobs from one queue, up to `concurrency` at a time
+ */
+export class JobWorker {
+  readonly id = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private options: JobWorkerOptions;
+  private active = new Map<string, AbortController>();
+  private idleWaiters: (() => void)[] = [];
+  private running = false;
+  private polling = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly queue: string, private handler: JobHandler, options: Partial<JobWorkerOptions> = {}) {
+    this.options = {
+      concurrency: jobQueueConfig.concurrency[queue] || 1,
+      pollIntervalMs: jobQueueConfig.pollIntervalMs,
+      visibilityTimeoutMs: jobQueueConfig.visibilityTimeoutMs,
+      ...options,
+    };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.poll();
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones to finish. Jobs still
+   * running after the timeout are aborted and handed back to the queue.
+   */
+  async stop(timeoutMs: number = jobQueueConfig.drainTimeoutMs): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (await this.waitForIdle(timeoutMs)) return;
+
+    console.warn(`⚠️  Aborting ${this.active.size} unfinished ${this.queue} job(s)`);
+    this.active.forEach(controller => controller.abort());
+    await this.waitForIdle(1000);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.running) return;
+    this.polling = true;
+
+    try {
+      for (const job of await jobQueueService.deadLetterExpired(this.queue)) {
+        await this.handleDead(job);
+      }
+
+      while (this.running && this.active.size < this.options.concurrency) {
+        const job = await jobQueueService.claim(this.queue, this.id, this.options.visibilityTimeoutMs);
+        if (!job) break;
+
+        if (!this.running) {
+          await jobQueueService.release(job._id.toString(), this.id);
+          break;
+        }
+        this.run(job);
+      }
+    } catch (error) {
+      console.error(`❌ ${this.queue} worker failed to poll for jobs:`, error);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedulePoll(this.options.pollIntervalMs);
+  }
+
+  private async run(job: IJob): Promise<void> {
+    const jobId = job._id.toString();
+    const controller = new AbortController();
+    this.active.set(jobId, controller);
+
+    const renewLease = () => jobQueueService.renewLease(jobId, this.id, this.options.visibilityTimeoutMs);
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await renewLease())) {
+          // Another worker has the job now
+          controller.abort();
+        }
+      } catch (error) {
+        console.error(`❌ Failed to renew lease on job ${jobId}:`, error);
+      }
+    }, Math.max(1000, Math.floor(this.options.visibilityTimeoutMs / 3)));
+
+    try {
+      await this.handler(job, { signal: controller.signal, renewLease });
+      await jobQueueService.complete(jobId, this.id);
+    } catch (error) {
+      try {
+        if (controller.signal.aborted) {
+          await jobQueueService.release(jobId, this.id);
+        } else {
+          const failed = await jobQueueService.fail(jobId, this.id, error);
+          if (failed?.status === 'dead') {
+            await this.handleDead(failed);
+          } else if (failed) {
+            console.warn(`⚠️  ${this.queue} job ${jobId} failed (attempt ${failed.attempts}), retrying at ${failed.runAt.toISOString()}`);
+          }
+        }
+      } catch (queueError) {
+        console.error(`❌ Failed to record the outcome of job ${jobId}:`, queueError);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.active.delete(jobId);
+      if (!this.active.size) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+      // A slot is free - look for more work straight away
+      this.schedulePoll(0);
+    }
+  }
+
+  private async handleDead(job: IJob): Promise<void> {
+    console.error(`💀 ${this.queue} job ${job._id} dead-lettered: ${job.lastError}`);
+    try {
+      await this.options.onDead?.(job);
+    } catch (error) {
+      console.error(`❌ Dead-letter handler failed for job ${job._id}:`, error);
+    }
+  }
+
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (!this.active.size) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.idleWaiters = this.idleWaiters.filter(waiter => waiter !== onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.idleWaiters.push(onIdle);
+    });
+  }
+}
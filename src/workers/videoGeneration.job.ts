@@ -0,0 +1,70 @@
+import { videoService } from '../services/video.service';
+import { videoProviderRegistry } from '../services/videoProvider.service';
+import { videoGenerationConfig } from '../config/videoGeneration';
+import { IJob } from '../types';
+import { JobHandler, delay } from './jobWorker';
+
+/**
+ * Generate one attempt of a video: submit it to a provider, then poll until
+ * it finishes. A retried job resumes polling the provider job it already
+ * started. Every update is scoped to the attempt, and the job stops as soon
+ * as one does not match.
+ */
+export const processVideoGeneration: JobHandler = async (job, { signal }) => {
+  const videoId: string = job.payload.videoId;
+  const attempt: number = job.payload.attempt;
+
+  const video = (await videoService.startProcessing(videoId, attempt))
+    || (await videoService.getProcessing(videoId, attempt));
+  // Cancelled, retried, deleted or already finished
+  if (!video) return;
+
+  const provider = videoProviderRegistry.get(video.provider);
+  let providerJobId = video.providerJobId;
+  if (!providerJobId) {
+    providerJobId = await provider.submit({
+      videoId,
+      prompt: video.prompt,
+      template: video.template,
+      resolution: video.resolution,
+      aspectRatio: video.aspectRatio,
+      durationSeconds: video.durationSeconds,
+      attempt,
+    });
+    if (!(await videoService.setProviderJob(videoId, attempt, provider.id, providerJobId))) {
+      await provider.cancel(providerJobId);
+      return;
+    }
+  }
+
+  for (;;) {
+    const status = await provider.getStatus(providerJobId);
+
+    switch (status.state) {
+      case 'succeeded':
+        await videoService.completeVideo(videoId, attempt, await provider.getResult(providerJobId));
+        return;
+      case 'failed':
+        await videoService.failVideo(videoId, attempt, status.error || 'Video generation failed');
+        return;
+      case 'cancelled':
+        await videoService.failVideo(videoId, attempt, 'Video generation was cancelled by the provider');
+        return;
+    }
+
+    if (!(await videoService.updateProgress(videoId, attempt, status.progress))) {
+      // The user cancelled (and maybe retried) it
+      await provider.cancel(providerJobId);
+      return;
+    }
+
+    await delay(videoGenerationConfig.pollIntervalMs, signal);
+  }
+};
+
+/**
+ * The queue gave up on a job - fail the video so the user can retry it
+ */
+export const onVideoGenerationDead = async (job: IJob): Promise<void> => {
+  await videoService.failVideo(job.payload.videoId, job.payload.attempt, 'Video generation failed, please try again');
+};